@@ -0,0 +1,63 @@
+// A stand-in for a Discord webhook, for trying out delivery locally.
+//
+//   RATE_LIMIT_FIRST=2 RETRY_AFTER=1.5 node scripts/fake-discord-webhook.mjs
+//
+// then set DISCORD_WEBHOOK_URL=http://localhost:4010/webhook.
+//   PORT              port to listen on (default 4010)
+//   RATE_LIMIT_FIRST  answer the first N posts with a 429
+//   RETRY_AFTER       seconds to ask for in those 429s (default 2)
+//   FAIL_FIRST        answer the next N posts with a 500
+
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT ?? 4010);
+const retryAfter = Number(process.env.RETRY_AFTER ?? 2);
+let rateLimited = Number(process.env.RATE_LIMIT_FIRST ?? 0);
+let failing = Number(process.env.FAIL_FIRST ?? 0);
+let received = 0;
+
+function reply(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+createServer((req, res) => {
+  if (req.method !== 'POST') return reply(res, 405, { message: '405: Method Not Allowed', code: 0 });
+
+  let raw = '';
+  req.on('data', (chunk) => (raw += chunk));
+  req.on('end', () => {
+    const n = ++received;
+
+    if (rateLimited > 0) {
+      rateLimited--;
+      console.log(`#${n} 429 (retry after ${retryAfter}s)`);
+      return reply(
+        res,
+        429,
+        { message: 'You are being rate limited.', retry_after: retryAfter, global: false },
+        { 'Retry-After': String(Math.ceil(retryAfter)) }
+      );
+    }
+
+    if (failing > 0) {
+      failing--;
+      console.log(`#${n} 500`);
+      return reply(res, 500, { message: '500: Internal Server Error', code: 0 });
+    }
+
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      console.log(`#${n} 400 (not JSON)`);
+      return reply(res, 400, { message: 'Cannot send an empty message', code: 50006 });
+    }
+
+    console.log(`#${n} 204`);
+    console.log(JSON.stringify(body, null, 2));
+    reply(res, 204);
+  });
+}).listen(port, () => {
+  console.log(`Fake Discord webhook on http://localhost:${port}/webhook`);
+});
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+function supabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing Supabase env vars');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// POST - Delete an unfinished session without saving any stats (host only)
+// Body: { sessionId, writeKey }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sessionId, writeKey } = body;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Missing session ID' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = supabaseAdmin();
+
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .select('id, write_key, finalized_at, end_result')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!writeKey || session.write_key !== writeKey) {
+      return NextResponse.json(
+        { error: 'Only the host can discard this session' },
+        { status: 403 }
+      );
+    }
+
+    // A reopened session still has stats saved to the season
+    if (session.finalized_at || session.end_result) {
+      return NextResponse.json(
+        { error: 'This session has saved stats. End it instead of discarding it.' },
+        { status: 409 }
+      );
+    }
+
+    const { error: deleteError } = await supabase
+      .from('sessions')
+      .delete()
+      .eq('id', sessionId)
+      .is('finalized_at', null);
+
+    if (deleteError) {
+      console.error('Failed to discard session:', deleteError);
+      return NextResponse.json({ error: deleteError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('POST /api/discard-session error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  DISCORD_EVENTS,
+  isAllowedWebhookUrl,
+  maskWebhookUrl,
+  type DiscordDestination,
+  type DiscordEvent,
+} from '@/lib/discord';
+import { getRequestUserId } from '@/lib/serverAuth';
+
+function supabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing Supabase env vars');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+const MAX_LABEL_LENGTH = 80;
+
+const SELECT = 'id, label, webhook_url, events, updated_at';
+
+type DestinationRow = Omit<DiscordDestination, 'webhook_hint'> & { webhook_url: string };
+
+// What the browser gets: everything but the webhook token
+function toDestination({ webhook_url, ...row }: DestinationRow): DiscordDestination {
+  return { ...row, webhook_hint: maskWebhookUrl(webhook_url) };
+}
+
+// Check a create/update body; the webhook URL may be left out of an update to keep it
+function parseDestination(
+  body: { label?: unknown; webhookUrl?: unknown; events?: unknown },
+  requireUrl: boolean
+): { ok: true; value: { label: string; webhook_url?: string; events: DiscordEvent[] } } | { ok: false; error: string } {
+  const label = typeof body.label === 'string' ? body.label.trim() : '';
+  if (!label) return { ok: false, error: 'Give the destination a name' };
+  if (label.length > MAX_LABEL_LENGTH) {
+    return { ok: false, error: `Names can be at most ${MAX_LABEL_LENGTH} characters` };
+  }
+
+  const webhookUrl = typeof body.webhookUrl === 'string' ? body.webhookUrl.trim() : '';
+  if (webhookUrl && !isAllowedWebhookUrl(webhookUrl)) {
+    return { ok: false, error: 'Webhook URL must be a Discord webhook (https://discord.com/api/webhooks/...)' };
+  }
+  if (!webhookUrl && requireUrl) return { ok: false, error: 'Enter the webhook URL' };
+
+  if (!Array.isArray(body.events) || !body.events.every((e) => DISCORD_EVENTS.some((d) => d.key === e))) {
+    return { ok: false, error: 'events must be a list of Discord events' };
+  }
+  const events = DISCORD_EVENTS.map((e) => e.key).filter((key) => (body.events as unknown[]).includes(key));
+
+  return { ok: true, value: { label, ...(webhookUrl && { webhook_url: webhookUrl }), events } };
+}
+
+// GET - List Discord destinations, with webhook URLs masked
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = supabaseAdmin();
+    if (!(await getRequestUserId(request, supabase))) {
+      return NextResponse.json({ error: 'Sign in to manage Discord destinations' }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from('discord_destinations')
+      .select(SELECT)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to load Discord destinations:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ destinations: (data as DestinationRow[]).map(toDestination) });
+  } catch (error) {
+    console.error('GET /api/discord-destinations error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a destination
+// Body: { label, webhookUrl, events }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const supabase = supabaseAdmin();
+    const userId = await getRequestUserId(request, supabase);
+    if (!userId) {
+      return NextResponse.json({ error: 'Sign in to manage Discord destinations' }, { status: 401 });
+    }
+
+    const parsed = parseDestination(body, true);
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { data, error } = await supabase
+      .from('discord_destinations')
+      .insert({ ...parsed.value, updated_by: userId })
+      .select(SELECT)
+      .single();
+
+    if (error) {
+      console.error('Failed to add Discord destination:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ destination: toDestination(data as DestinationRow) });
+  } catch (error) {
+    console.error('POST /api/discord-destinations error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Edit a destination
+// Body: { id, label, webhookUrl?, events }; leave webhookUrl out to keep the current one
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const supabase = supabaseAdmin();
+    const userId = await getRequestUserId(request, supabase);
+    if (!userId) {
+      return NextResponse.json({ error: 'Sign in to manage Discord destinations' }, { status: 401 });
+    }
+
+    if (!body.id) {
+      return NextResponse.json({ error: 'Missing destination ID' }, { status: 400 });
+    }
+
+    const parsed = parseDestination(body, false);
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { data, error } = await supabase
+      .from('discord_destinations')
+      .update({ ...parsed.value, updated_by: userId, updated_at: new Date().toISOString() })
+      .eq('id', body.id)
+      .select(SELECT)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to update Discord destination:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Destination not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ destination: toDestination(data as DestinationRow) });
+  } catch (error) {
+    console.error('PUT /api/discord-destinations error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a destination
+// Body: { id }. Posts still pending for it are marked failed; sent posts are kept.
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const supabase = supabaseAdmin();
+    if (!(await getRequestUserId(request, supabase))) {
+      return NextResponse.json({ error: 'Sign in to manage Discord destinations' }, { status: 401 });
+    }
+
+    if (!body.id) {
+      return NextResponse.json({ error: 'Missing destination ID' }, { status: 400 });
+    }
+
+    // Once the destination is gone these would fall back to the default webhook
+    const { error: failError } = await supabase
+      .from('discord_posts')
+      .update({
+        status: 'failed',
+        last_error: 'Destination was deleted',
+        next_attempt_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('destination_id', body.id)
+      .eq('status', 'pending');
+
+    if (failError) {
+      console.error('Failed to cancel pending Discord posts:', failError);
+      return NextResponse.json({ error: failError.message }, { status: 500 });
+    }
+
+    const { error } = await supabase.from('discord_destinations').delete().eq('id', body.id);
+
+    if (error) {
+      console.error('Failed to delete Discord destination:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/discord-destinations error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
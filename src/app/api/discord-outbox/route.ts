@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { deliverDuePosts } from '@/lib/discordOutbox';
+
+function supabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing Supabase env vars');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// GET - Retry Discord posts that are still pending and due
+// Meant for a scheduler (every few minutes); requires `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Outbox not configured' },
+        { status: 500 }
+      );
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const counts = await deliverDuePosts(supabaseAdmin());
+    return NextResponse.json({ success: true, ...counts });
+  } catch (error) {
+    console.error('GET /api/discord-outbox error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
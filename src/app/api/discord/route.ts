@@ -1,34 +1,86 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { DISCORD_EVENTS, parseDiscordMessage, type DiscordEvent } from '@/lib/discord';
+import { destinationsFor, postToDestinations } from '@/lib/discordOutbox';
+import { getRequestUserId } from '@/lib/serverAuth';
 
+function supabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing Supabase env vars');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// POST - Post a message to Discord
+// Body: { event, payload, destinationId? }; payload is a webhook body with
+// content and/or embeds. It goes to every destination receiving `event`, or only
+// to destinationId, which must receive it. Requires a signed-in user's access token.
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { payload } = body;
+    const { event, destinationId } = body;
 
-    const webhookUrl = process.env.DISCORD_WEBHOOK_URL;
-    if (!webhookUrl) {
+    if (!DISCORD_EVENTS.some((e) => e.key === event)) {
       return NextResponse.json(
-        { error: 'Discord webhook not configured' },
-        { status: 500 }
+        { error: `event must be one of ${DISCORD_EVENTS.map((e) => e.key).join(', ')}` },
+        { status: 400 }
       );
     }
 
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
+    if (destinationId !== undefined && typeof destinationId !== 'string') {
+      return NextResponse.json({ error: 'destinationId must be a destination ID' }, { status: 400 });
+    }
+
+    const payload = parseDiscordMessage(body.payload);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'payload must be a Discord message (content and/or embeds) within Discord limits' },
+        { status: 400 }
+      );
+    }
 
-    if (!response.ok) {
-      const text = await response.text();
-      console.error('Discord webhook error:', text);
+    const supabase = supabaseAdmin();
+    if (!(await getRequestUserId(request, supabase))) {
+      return NextResponse.json({ error: 'Sign in to post to Discord' }, { status: 401 });
+    }
+
+    // Without destinations set up this falls back to DISCORD_WEBHOOK_URL, which a
+    // destinationId never names
+    const targets = (
+      await destinationsFor(supabase, event as DiscordEvent, destinationId ? [destinationId] : undefined)
+    ).filter((t) => !destinationId || t.id === destinationId);
+
+    if (targets.length === 0) {
+      if (destinationId) {
+        const { data: destination } = await supabase
+          .from('discord_destinations')
+          .select('id')
+          .eq('id', destinationId)
+          .maybeSingle();
+        if (!destination) {
+          return NextResponse.json({ error: 'Destination not found' }, { status: 404 });
+        }
+      }
+      return NextResponse.json(
+        { error: `No Discord destination receives ${event}` },
+        { status: 400 }
+      );
+    }
+
+    const posts = await postToDestinations(supabase, targets, { kind: 'custom', payload });
+
+    if (posts.every((p) => p.status === 'failed')) {
       return NextResponse.json(
         { error: 'Failed to post to Discord' },
         { status: 500 }
       );
     }
 
-    return NextResponse.json({ success: true });
+    // A pending post is retried by /api/discord-outbox
+    return NextResponse.json({
+      success: true,
+      posts: posts.map(({ id, label, status }) => ({ id, label, status })),
+    });
   } catch (error) {
     console.error('Discord API error:', error);
     return NextResponse.json(
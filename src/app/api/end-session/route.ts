@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { formatFieldErrors, validateSessionDoc } from '@/lib/sessionValidation';
+import { computeSquadSummary, playerGameLog, playerPlacements } from '@/lib/stats';
+import { recordSessionFromRow, recordsBrokenBy, type PersonalRecord } from '@/lib/records';
+import { recordsMessage } from '@/lib/discord';
+import {
+  buildSessionSummary,
+  destinationsFor,
+  postToDestinations,
+  type DiscordPostResult,
+} from '@/lib/discordOutbox';
 
 function supabaseAdmin() {
   const url = process.env.SUPABASE_URL;
@@ -8,32 +18,45 @@ function supabaseAdmin() {
   return createClient(url, key, { auth: { persistSession: false } });
 }
 
-type PlayerDoc = {
-  odlId: string;
-  odlierId: string | null;
-  name: string;
-  games: number;
-  totalDamage: number;
-  totalKills: number;
-  oneKGames: number;
-  twoKGames: number;
-  donuts: number;
-  totalRP: number;
+type EndSessionResult = {
+  success: true;
+  discordPosted: boolean;
+  statsInserted: number;
+  errors: string[];
+  finalizedAt: string;
+  amended: boolean;
 };
 
-type SessionDoc = {
-  players: PlayerDoc[];
-  sessionGames: number;
-  wins: number;
-  totalPlacement: number;
-  placements: number[];
-};
+// Result for a session that was already ended (or is being ended by another request)
+function finalizedResponse(session: {
+  finalized_at: string;
+  end_result: EndSessionResult | null;
+}) {
+  return NextResponse.json({
+    success: true,
+    discordPosted: false,
+    statsInserted: 0,
+    errors: [],
+    amended: false,
+    ...session.end_result,
+    finalizedAt: session.finalized_at,
+    alreadyFinalized: true,
+  });
+}
 
 // POST - End session and save all stats
+// Body: { sessionId, writeKey, postToDiscord, destinationIds? }
+// destinationIds narrows the post to those destinations; by default every
+// destination receiving session summaries (and records) gets it.
+// Idempotent: once a session is finalized, repeat calls return the stored result.
+// Ending a reopened session replaces the stats saved the first time round.
 export async function POST(request: NextRequest) {
+  // Set once the session is claimed; undoes the claim if saving its stats fails
+  let releaseClaim: (() => Promise<void>) | null = null;
+
   try {
     const body = await request.json();
-    const { sessionId, postToDiscord } = body;
+    const { sessionId, writeKey, postToDiscord: shouldPost, destinationIds } = body;
 
     if (!sessionId) {
       return NextResponse.json(
@@ -42,12 +65,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      destinationIds !== undefined &&
+      !(Array.isArray(destinationIds) && destinationIds.every((id) => typeof id === 'string'))
+    ) {
+      return NextResponse.json(
+        { error: 'destinationIds must be a list of destination IDs' },
+        { status: 400 }
+      );
+    }
+
     const supabase = supabaseAdmin();
 
     // Fetch the session
     const { data: session, error: sessionError } = await supabase
       .from('sessions')
-      .select('id, season_number, doc')
+      .select('id, season_number, write_key, doc, finalized_at, archived_at, end_result, created_at')
       .eq('id', sessionId)
       .maybeSingle();
 
@@ -55,26 +88,115 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
-    const doc = session.doc as SessionDoc;
+    if (!writeKey || session.write_key !== writeKey) {
+      return NextResponse.json(
+        { error: 'Only the host can end this session' },
+        { status: 403 }
+      );
+    }
+
+    if (session.finalized_at) {
+      return finalizedResponse(session);
+    }
+
+    const validation = validateSessionDoc(session.doc);
+    if (!validation.ok) {
+      return NextResponse.json(
+        {
+          error: `Session data is invalid: ${formatFieldErrors(validation.errors)}`,
+          fieldErrors: validation.errors,
+        },
+        { status: 422 }
+      );
+    }
+    const doc = validation.value;
 
-    // Get the season ID from season_number
-    const { data: seasonData, error: seasonError } = await supabase
+    // A previous result means this session was reopened for corrections
+    const amended = Boolean(session.end_result);
+
+    // Get the season ID from season_number. New sessions must belong to the
+    // active season; a reopened one keeps its own season even after it ends.
+    let seasonQuery = supabase
       .from('seasons')
       .select('id')
-      .eq('season_number', session.season_number)
-      .eq('is_active', true)
-      .maybeSingle();
+      .eq('season_number', session.season_number);
+    if (!amended) seasonQuery = seasonQuery.eq('is_active', true);
+    const { data: seasonData, error: seasonError } = await seasonQuery.maybeSingle();
 
     if (seasonError || !seasonData) {
-      return NextResponse.json({ error: 'Active season not found' }, { status: 404 });
+      return NextResponse.json(
+        { error: amended ? 'Season not found' : 'Active season not found' },
+        { status: 404 }
+      );
     }
 
     const seasonId = seasonData.id;
 
+    // Claim the session so a double click or retry cannot save stats twice
+    const finalizedAt = new Date().toISOString();
+    const { data: claimed, error: claimError } = await supabase
+      .from('sessions')
+      .update({
+        finalized_at: finalizedAt,
+        archived_at: null,
+        end_result: null,
+        updated_at: finalizedAt,
+      })
+      .eq('id', sessionId)
+      .is('finalized_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      console.error('Failed to finalize session:', claimError);
+      return NextResponse.json({ error: claimError.message }, { status: 500 });
+    }
+
+    if (!claimed) {
+      const { data: current } = await supabase
+        .from('sessions')
+        .select('finalized_at, end_result')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      if (!current?.finalized_at) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+      }
+      return finalizedResponse(current);
+    }
+
+    // Put the session back as it was, so a retry saves its stats again rather
+    // than reporting the half-saved attempt as done
+    releaseClaim = async () => {
+      const { error } = await supabase
+        .from('sessions')
+        .update({
+          finalized_at: null,
+          archived_at: session.archived_at,
+          end_result: session.end_result,
+        })
+        .eq('id', sessionId)
+        .eq('finalized_at', finalizedAt);
+      if (error) console.error('Failed to release session claim:', error);
+    };
+
+    // Replace, rather than add to, any stats saved for this session before
+    const { error: clearError } = await supabase
+      .from('season_player_stats')
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (clearError) {
+      console.error('Failed to clear previous session stats:', clearError);
+      await releaseClaim();
+      return NextResponse.json({ error: clearError.message }, { status: 500 });
+    }
+
     const results = {
       statsInserted: 0,
       errors: [] as string[],
     };
+    const newRecords: { name: string; record: PersonalRecord }[] = [];
 
     // Process each player
     for (const player of doc.players) {
@@ -83,7 +205,30 @@ export async function POST(request: NextRequest) {
         continue;
       }
 
-      // 1. Save session stats to season_player_stats (including RP)
+      const gameLog = playerGameLog(doc, player.odlId);
+
+      // 1. Check for personal records against every earlier session (all seasons)
+      const { data: previousRows, error: previousError } = await supabase
+        .from('season_player_stats')
+        .select('session_id, created_at, game_log')
+        .eq('user_id', player.odlierId)
+        .order('created_at', { ascending: true });
+
+      if (previousError) {
+        console.error(`Failed to load records for ${player.name}:`, previousError);
+      } else {
+        const previous = (previousRows ?? []).map(recordSessionFromRow);
+        const broken = recordsBrokenBy(previous, {
+          sessionKey: sessionId,
+          date: finalizedAt.split('T')[0],
+          games: gameLog,
+        });
+        for (const record of broken) {
+          newRecords.push({ name: player.name, record });
+        }
+      }
+
+      // 2. Save session stats to season_player_stats (including RP)
       const { error: statsError } = await supabase
         .from('season_player_stats')
         .insert({
@@ -93,20 +238,24 @@ export async function POST(request: NextRequest) {
           games: player.games,
           total_damage: player.totalDamage,
           total_kills: player.totalKills,
-          one_k_games: player.oneKGames,
-          two_k_games: player.twoKGames,
+          milestone_games: player.milestones,
           donuts: player.donuts,
           total_rp: player.totalRP,
+          placements: playerPlacements(doc, player.odlId),
+          game_log: gameLog,
         });
 
-      if (statsError) {
+      if (statsError?.code === '23505') {
+        // Already saved for this session
+        results.statsInserted++;
+      } else if (statsError) {
         console.error(`Failed to save stats for ${player.name}:`, statsError);
         results.errors.push(`Failed to save stats for ${player.name}`);
       } else {
         results.statsInserted++;
       }
 
-      // 2. Auto-register player to season if not already registered
+      // 3. Auto-register player to season if not already registered
       const { data: existingSeasonPlayer } = await supabase
         .from('season_players')
         .select('season_id')
@@ -128,50 +277,83 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // 4. Post to Discord if requested
+    // 4. Save the squad summary (replacing the one from before a reopen)
+    const summary = computeSquadSummary(doc, session.created_at, finalizedAt);
+    const { error: summaryError } = await supabase
+      .from('season_session_summaries')
+      .upsert(
+        {
+          session_id: sessionId,
+          season_id: seasonId,
+          games: summary.games,
+          wins: summary.wins,
+          avg_placement: summary.avgPlacement,
+          total_rp: summary.totalRP,
+          started_at: summary.startedAt,
+          ended_at: summary.endedAt,
+          duration_seconds: summary.durationSeconds,
+          roster: summary.roster,
+        },
+        { onConflict: 'session_id' }
+      );
+
+    if (summaryError) {
+      console.error('Failed to save squad summary:', summaryError);
+      results.errors.push('Failed to save squad summary');
+    }
+
+    // Stats are saved; from here a retry should get the stored result, not redo them
+    releaseClaim = null;
+
+    // 5. Post to Discord if requested
     let discordPosted = false;
-    if (postToDiscord) {
+    if (shouldPost) {
       try {
-        const webhookUrl = process.env.DISCORD_WEBHOOK_URL;
-        
-        if (!webhookUrl) {
-          results.errors.push('Discord webhook not configured');
+        const summaryInput = {
+          doc,
+          seasonNumber: session.season_number,
+          amended,
+          endedAt: finalizedAt,
+          newRecords,
+        };
+        const summaryTargets = await destinationsFor(supabase, 'session_end', destinationIds);
+        // The summary already lists new records, so destinations getting both only get the summary
+        const recordTargets = (
+          newRecords.length > 0 ? await destinationsFor(supabase, 'records', destinationIds) : []
+        ).filter((t) => !summaryTargets.some((s) => s.id === t.id));
+
+        if (summaryTargets.length === 0 && recordTargets.length === 0) {
+          results.errors.push('No Discord destination receives session summaries');
         } else {
-          const avgPlacement = doc.sessionGames > 0 
-            ? (doc.totalPlacement / doc.sessionGames).toFixed(1) 
-            : '0';
-          
-          const lines: string[] = [
-            `**Apex Session Summary — Season ${session.season_number}**`,
-            `Games: ${doc.sessionGames} | Wins: ${doc.wins} | Avg Placement: ${avgPlacement}`,
-            '',
-          ];
-
-          doc.players.forEach((p, i) => {
-            const avgDmg = p.games > 0 ? (p.totalDamage / p.games).toFixed(0) : '0';
-            lines.push(`**#${i + 1} ${p.name || '(no name)'}**`);
-            lines.push(`• Damage: ${p.totalDamage.toLocaleString()} (Avg: ${avgDmg})`);
-            lines.push(`• Kills: ${p.totalKills}`);
-            lines.push(`• 1k Games: ${p.oneKGames} | 2k Games: ${p.twoKGames}`);
-            lines.push(`• Donuts: ${p.donuts}`);
-            lines.push(`• Session RP: ${p.totalRP > 0 ? '+' : ''}${p.totalRP}`);
-            lines.push('');
-          });
+          const posts: DiscordPostResult[] = [];
 
-          const totalSquadRP = doc.players.reduce((acc, p) => acc + p.totalRP, 0);
-          lines.push(`**Squad Total RP: ${totalSquadRP > 0 ? '+' : ''}${totalSquadRP}**`);
+          if (summaryTargets.length > 0) {
+            const { message, usedDefault } = await buildSessionSummary(supabase, summaryInput);
+            if (usedDefault) results.errors.push('Discord template is invalid; posted with the default');
+            posts.push(
+              ...(await postToDestinations(supabase, summaryTargets, {
+                kind: 'session_summary',
+                payload: message,
+                sessionId,
+              }))
+            );
+          }
 
-          const discordRes = await fetch(webhookUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ content: lines.join('\n') }),
-          });
+          posts.push(
+            ...(await postToDestinations(supabase, recordTargets, {
+              kind: 'records',
+              payload: recordsMessage(summaryInput),
+              sessionId,
+            }))
+          );
 
-          discordPosted = discordRes.ok;
-          if (!discordPosted) {
-            const errText = await discordRes.text();
-            console.error('Discord webhook error:', errText);
-            results.errors.push('Failed to post to Discord');
+          discordPosted = posts.some((p) => p.status === 'sent');
+          for (const post of posts) {
+            if (post.status === 'pending') {
+              results.errors.push(`${post.label}: Discord is busy; the post will go out on the next retry`);
+            } else if (post.status === 'failed') {
+              results.errors.push(`Failed to post to ${post.label}`);
+            }
           }
         }
       } catch (err) {
@@ -180,13 +362,27 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    return NextResponse.json({
+    const result: EndSessionResult = {
       success: true,
       discordPosted,
       ...results,
-    });
+      finalizedAt,
+      amended,
+    };
+
+    const { error: resultError } = await supabase
+      .from('sessions')
+      .update({ end_result: result })
+      .eq('id', sessionId);
+
+    if (resultError) {
+      console.error('Failed to store end-session result:', resultError);
+    }
+
+    return NextResponse.json(result);
   } catch (error) {
     console.error('POST /api/end-session error:', error);
+    if (releaseClaim) await releaseClaim();
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
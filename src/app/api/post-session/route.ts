@@ -1,5 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import type { SessionDoc } from '@/lib/sessionDoc';
+import {
+  applySessionOp,
+  canApplySessionOp,
+  type SessionOp,
+} from '@/lib/sessionOps';
+import {
+  formatFieldErrors,
+  validateSessionDoc,
+  validateSessionOps,
+  type FieldError,
+} from '@/lib/sessionValidation';
+import { generateSessionCode, isSessionCodeExpired } from '@/lib/sessionCodes';
+import { createRateLimiter, getClientIp } from '@/lib/rateLimit';
+import { getRequestUserId } from '@/lib/serverAuth';
+
+// Code lookups are rate limited per IP and per signed-in user to stop enumeration
+const LOOKUP_WINDOW_MS = 5 * 60 * 1000;
+const lookupsPerIp = createRateLimiter({ limit: 30, windowMs: LOOKUP_WINDOW_MS });
+const lookupsPerUser = createRateLimiter({ limit: 20, windowMs: LOOKUP_WINDOW_MS });
+
+function forbiddenMessage(op: SessionOp): string {
+  switch (op.type) {
+    case 'commitRp':
+    case 'undoRp':
+      return 'You can only update your own RP';
+    case 'addPlayer':
+      return 'You can only add yourself to a session';
+    default:
+      return 'Only the host can change games and players';
+  }
+}
+
+function invalidResponse(errors: FieldError[], status = 400) {
+  return NextResponse.json(
+    { error: `Invalid session data: ${formatFieldErrors(errors)}`, fieldErrors: errors },
+    { status }
+  );
+}
 
 function supabaseAdmin() {
   const url = process.env.SUPABASE_URL;
@@ -13,9 +52,8 @@ async function generateUniqueCode(supabase: ReturnType<typeof supabaseAdmin>): P
   const maxAttempts = 10;
   
   for (let i = 0; i < maxAttempts; i++) {
-    // Generate random 6-digit code
-    const code = Math.floor(100000 + Math.random() * 900000).toString();
-    
+    const code = generateSessionCode();
+
     // Check if it already exists
     const { data } = await supabase
       .from('sessions')
@@ -32,6 +70,8 @@ async function generateUniqueCode(supabase: ReturnType<typeof supabaseAdmin>): P
 }
 
 // GET - Lookup session by code
+// Signed-in callers get the full session; anyone else only gets a summary.
+// Codes of finalized or idle sessions only resolve for the host and players.
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -45,10 +85,32 @@ export async function GET(request: NextRequest) {
     }
 
     const supabase = supabaseAdmin();
+    const userId = await getRequestUserId(request, supabase);
+
+    const limits = await Promise.all([
+      lookupsPerIp(`ip:${getClientIp(request.headers)}`),
+      ...(userId ? [lookupsPerUser(`user:${userId}`)] : []),
+    ]);
+    const blocked = limits.find((l) => !l.allowed);
+    if (blocked) {
+      return NextResponse.json(
+        {
+          error: `Too many session lookups. Try again in ${blocked.retryAfterSeconds} seconds.`,
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(blocked.retryAfterSeconds) },
+        }
+      );
+    }
+
+    if (!/^\d{6}$/.test(code)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
 
     const { data: session, error } = await supabase
       .from('sessions')
-      .select('id, session_code, season_number, host_user_id, doc, created_at, updated_at')
+      .select('id, session_code, season_number, host_user_id, doc, revision, finalized_at, archived_at, created_at, updated_at')
       .eq('session_code', code)
       .maybeSingle();
 
@@ -61,6 +123,28 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    const players = (session.doc as SessionDoc | null)?.players ?? [];
+    const isMember =
+      userId !== null &&
+      (session.host_user_id === userId || players.some((p) => p.odlierId === userId));
+
+    if (!isMember && isSessionCodeExpired(session)) {
+      return NextResponse.json(
+        { error: 'This session code has expired' },
+        { status: 410 }
+      );
+    }
+
+    if (!userId) {
+      return NextResponse.json({
+        session: {
+          session_code: session.session_code,
+          season_number: session.season_number,
+          player_count: players.length,
+        },
+      });
+    }
+
     return NextResponse.json({ session });
   } catch (error) {
     console.error('GET /api/post-session error:', error);
@@ -84,6 +168,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const validation = validateSessionDoc(doc);
+    if (!validation.ok) return invalidResponse(validation.errors);
+
     const supabase = supabaseAdmin();
     const sessionId = crypto.randomUUID();
     const writeKey = crypto.randomUUID();
@@ -95,7 +182,8 @@ export async function POST(request: NextRequest) {
       host_user_id: hostUserId,
       write_key: writeKey,
       session_code: sessionCode,
-      doc,
+      doc: validation.value,
+      revision: 0,
     });
 
     if (error) {
@@ -103,7 +191,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    return NextResponse.json({ sessionId, writeKey, sessionCode });
+    return NextResponse.json({ sessionId, writeKey, sessionCode, revision: 0 });
   } catch (error) {
     console.error('POST /api/post-session error:', error);
     return NextResponse.json(
@@ -113,55 +201,159 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// PUT - Update existing session
+// PUT - Apply operations to an existing session
+// Body: { sessionId, baseRevision, writeKey?, playerIdUpdating?, ops: SessionOp[] }
+// baseRevision is the revision of the doc the client last saw; when someone has
+// written since, the route answers 409 with the latest doc and revision so the
+// client can catch up and send its ops again. Clients never send whole docs.
+// Non-hosts must send their access token; only their own player can be changed.
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
-    const { sessionId, writeKey, doc, playerIdUpdating } = body;
+    const { sessionId, baseRevision, writeKey, playerIdUpdating } = body;
 
-    if (!sessionId || !doc) {
+    if (!sessionId) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
+    if (!Number.isInteger(baseRevision) || baseRevision < 0) {
+      return invalidResponse([{ field: 'baseRevision', message: 'must be a non-negative integer' }]);
+    }
+
+    const opsValidation = validateSessionOps(body.ops);
+    if (!opsValidation.ok) return invalidResponse(opsValidation.errors);
+    const ops = opsValidation.value;
+
     const supabase = supabaseAdmin();
+    const userId = await getRequestUserId(request, supabase);
+
+    if (playerIdUpdating && userId && playerIdUpdating !== userId) {
+      return NextResponse.json(
+        { error: 'You can only update your own RP' },
+        { status: 403 }
+      );
+    }
+
+    const loadSession = () =>
+      supabase
+        .from('sessions')
+        .select('write_key, doc, revision, finalized_at, archived_at')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+    // Someone wrote since the client's view - send the latest doc to catch up with
+    const conflictResponse = (session: { doc: unknown; revision: number }) => {
+      const stored = validateSessionDoc(session.doc);
+      if (!stored.ok) return invalidResponse(stored.errors, 422);
+      return NextResponse.json(
+        {
+          error: 'Session changed since you last loaded it',
+          doc: stored.value,
+          revision: session.revision,
+        },
+        { status: 409 }
+      );
+    };
 
     // Fetch the session
-    const { data: session, error: fetchError } = await supabase
-      .from('sessions')
-      .select('write_key')
-      .eq('id', sessionId)
-      .maybeSingle();
+    const { data: session, error: fetchError } = await loadSession();
 
     if (fetchError || !session) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
-    // Check authorization
-    const isHost = writeKey && session.write_key === writeKey;
-    const isPlayerUpdatingOwnRP = playerIdUpdating && !isHost;
+    if (session.finalized_at) {
+      return NextResponse.json(
+        { error: 'This session has ended and can no longer be changed' },
+        { status: 403 }
+      );
+    }
+
+    if (session.archived_at) {
+      return NextResponse.json(
+        { error: 'This session was archived after being idle. The host can end or discard it.' },
+        { status: 403 }
+      );
+    }
+
+    // Check authorization per operation
+    const actor = {
+      isHost: Boolean(writeKey) && session.write_key === writeKey,
+      userId,
+    };
+
+    if (!actor.isHost && !userId) {
+      return NextResponse.json(
+        { error: 'Your sign-in has expired. Please sign in again.' },
+        { status: 401 }
+      );
+    }
+
+    if (session.revision !== baseRevision) return conflictResponse(session);
 
-    // Allow update if:
-    // 1. User is host (has valid writeKey) OR
-    // 2. User is a player updating their own RP (has playerIdUpdating)
-    if (!isHost && !isPlayerUpdatingOwnRP) {
-      return NextResponse.json({ error: 'Invalid write key' }, { status: 403 });
+    const stored = validateSessionDoc(session.doc);
+    if (!stored.ok) return invalidResponse(stored.errors, 422);
+
+    let doc: SessionDoc = stored.value;
+    for (const op of ops) {
+      if (!canApplySessionOp(op, doc, actor)) {
+        return NextResponse.json(
+          { error: forbiddenMessage(op) },
+          { status: 403 }
+        );
+      }
+      try {
+        doc = applySessionOp(doc, op);
+      } catch (err) {
+        return NextResponse.json(
+          { error: err instanceof Error ? err.message : 'Invalid operation' },
+          { status: 422 }
+        );
+      }
     }
 
-    // Update session
-    const { error: updateError } = await supabase
+    const result = validateSessionDoc(doc);
+    if (!result.ok) return invalidResponse(result.errors, 422);
+
+    // Write only if nobody else has written (or ended/archived the session) since we read
+    const { data: updated, error: updateError } = await supabase
       .from('sessions')
-      .update({ doc, updated_at: new Date().toISOString() })
-      .eq('id', sessionId);
+      .update({
+        doc,
+        revision: baseRevision + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', sessionId)
+      .eq('revision', baseRevision)
+      .is('finalized_at', null)
+      .is('archived_at', null)
+      .select('revision')
+      .maybeSingle();
 
     if (updateError) {
       console.error('Failed to update session:', updateError);
       return NextResponse.json({ error: updateError.message }, { status: 500 });
     }
 
-    return NextResponse.json({ success: true });
+    if (updated) {
+      return NextResponse.json({ success: true, revision: updated.revision, doc });
+    }
+
+    // Lost a race with another write (or the session was just ended or archived)
+    const { data: latest } = await loadSession();
+    if (!latest) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (latest.finalized_at || latest.archived_at) {
+      return NextResponse.json(
+        { error: 'This session is no longer open for changes' },
+        { status: 403 }
+      );
+    }
+    return conflictResponse(latest);
   } catch (error) {
     console.error('PUT /api/post-session error:', error);
     return NextResponse.json(
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+function supabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing Supabase env vars');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// POST - Reopen a finalized session so the host can amend it
+// Body: { sessionId, writeKey }
+// Saved season stats stay in place until the session is ended again,
+// at which point /api/end-session replaces them.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sessionId, writeKey } = body;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Missing session ID' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = supabaseAdmin();
+
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .select('id, write_key, finalized_at')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!writeKey || session.write_key !== writeKey) {
+      return NextResponse.json(
+        { error: 'Only the host can reopen this session' },
+        { status: 403 }
+      );
+    }
+
+    if (!session.finalized_at) {
+      // Already open - nothing to do
+      return NextResponse.json({ success: true });
+    }
+
+    const { error: updateError } = await supabase
+      .from('sessions')
+      .update({ finalized_at: null, updated_at: new Date().toISOString() })
+      .eq('id', sessionId);
+
+    if (updateError) {
+      console.error('Failed to reopen session:', updateError);
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('POST /api/reopen-session error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
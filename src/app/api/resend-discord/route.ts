@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { formatFieldErrors, validateSessionDoc } from '@/lib/sessionValidation';
+import { buildSessionSummary, destinationsFor, postToDestinations } from '@/lib/discordOutbox';
+import type { DiscordMessage } from '@/lib/discord';
+import { getRequestUserId } from '@/lib/serverAuth';
+
+function supabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing Supabase env vars');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// POST - Post an ended session's summary to Discord again
+// Body: { sessionId, writeKey?, destinationIds? }
+// Allowed for the host's device (writeKey) or, with an access token, for the
+// host and players of the session, so it works from the past sessions list.
+// Resends the summary that was queued when the session ended; sessions ended
+// without one get a fresh summary in the current template. Goes to every
+// destination receiving session summaries unless destinationIds narrows it.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sessionId, writeKey, destinationIds } = body;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Missing session ID' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      destinationIds !== undefined &&
+      !(Array.isArray(destinationIds) && destinationIds.every((id) => typeof id === 'string'))
+    ) {
+      return NextResponse.json(
+        { error: 'destinationIds must be a list of destination IDs' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = supabaseAdmin();
+
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .select('id, season_number, host_user_id, write_key, doc, finalized_at')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!writeKey || session.write_key !== writeKey) {
+      const userId = await getRequestUserId(request, supabase);
+      const players: { odlierId?: string | null }[] = session.doc?.players ?? [];
+      if (!userId || (session.host_user_id !== userId && !players.some((p) => p.odlierId === userId))) {
+        return NextResponse.json(
+          { error: 'Only the host and players can resend this session' },
+          { status: 403 }
+        );
+      }
+    }
+
+    if (!session.finalized_at) {
+      return NextResponse.json(
+        { error: 'End the session before posting it to Discord' },
+        { status: 409 }
+      );
+    }
+
+    const targets = await destinationsFor(supabase, 'session_end', destinationIds);
+    if (targets.length === 0) {
+      return NextResponse.json(
+        { error: 'No Discord destination receives session summaries' },
+        { status: 400 }
+      );
+    }
+
+    const { data: previous, error: previousError } = await supabase
+      .from('discord_posts')
+      .select('payload')
+      .eq('session_id', sessionId)
+      .eq('kind', 'session_summary')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (previousError) {
+      console.error('Failed to load previous Discord post:', previousError);
+      return NextResponse.json({ error: previousError.message }, { status: 500 });
+    }
+
+    let payload = previous?.payload as DiscordMessage | undefined;
+    if (!payload) {
+      const validation = validateSessionDoc(session.doc);
+      if (!validation.ok) {
+        return NextResponse.json(
+          {
+            error: `Session data is invalid: ${formatFieldErrors(validation.errors)}`,
+            fieldErrors: validation.errors,
+          },
+          { status: 422 }
+        );
+      }
+
+      ({ message: payload } = await buildSessionSummary(supabase, {
+        doc: validation.value,
+        seasonNumber: session.season_number,
+        amended: false,
+        endedAt: session.finalized_at,
+        newRecords: [],
+      }));
+    }
+
+    const posts = await postToDestinations(supabase, targets, {
+      kind: 'session_summary',
+      payload,
+      sessionId,
+    });
+
+    if (posts.every((p) => p.status === 'failed')) {
+      return NextResponse.json({ error: 'Failed to post to Discord' }, { status: 502 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      posts: posts.map(({ label, status }) => ({ label, status })),
+    });
+  } catch (error) {
+    console.error('POST /api/resend-discord error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
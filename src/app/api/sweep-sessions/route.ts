@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { SESSION_IDLE_MS } from '@/lib/sessionCodes';
+
+function supabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing Supabase env vars');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// GET - Archive sessions that were never ended and have gone idle
+// Meant for a scheduler (e.g. Vercel Cron); requires `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Sweeper not configured' },
+        { status: 500 }
+      );
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = supabaseAdmin();
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - SESSION_IDLE_MS).toISOString();
+
+    // updated_at is left alone so the host still sees when the session was last used
+    const { data: archived, error } = await supabase
+      .from('sessions')
+      .update({ archived_at: now.toISOString() })
+      .is('finalized_at', null)
+      .is('archived_at', null)
+      .lt('updated_at', cutoff)
+      .select('id');
+
+    if (error) {
+      console.error('Failed to archive idle sessions:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, archived: archived?.length ?? 0 });
+  } catch (error) {
+    console.error('GET /api/sweep-sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
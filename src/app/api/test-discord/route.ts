@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { testMessage, type DiscordEvent } from '@/lib/discord';
+import { postToDiscord } from '@/lib/discordOutbox';
+import { getRequestUserId } from '@/lib/serverAuth';
+
+function supabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing Supabase env vars');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// POST - Send a test post to a Discord destination
+// Body: { destinationId }; requires a signed-in user's access token
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { destinationId } = body;
+
+    if (!destinationId) {
+      return NextResponse.json(
+        { error: 'Missing destination ID' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = supabaseAdmin();
+
+    const userId = await getRequestUserId(request, supabase);
+    if (!userId) {
+      return NextResponse.json({ error: 'Sign in to send a test post' }, { status: 401 });
+    }
+
+    const { data: destination, error: destinationError } = await supabase
+      .from('discord_destinations')
+      .select('id, label, events')
+      .eq('id', destinationId)
+      .maybeSingle();
+
+    if (destinationError || !destination) {
+      return NextResponse.json({ error: 'Destination not found' }, { status: 404 });
+    }
+
+    const { id, status } = await postToDiscord(supabase, {
+      kind: 'test',
+      payload: testMessage({ label: destination.label, events: destination.events as DiscordEvent[] }),
+      destinationId,
+    });
+
+    if (status === 'failed') {
+      const { data: post } = await supabase
+        .from('discord_posts')
+        .select('last_error')
+        .eq('id', id)
+        .maybeSingle();
+      return NextResponse.json(
+        { error: post?.last_error ?? 'Failed to post to Discord' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, status });
+  } catch (error) {
+    console.error('POST /api/test-discord error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { computeWeeklyDigest } from '@/lib/stats';
+import { weeklyDigestMessage } from '@/lib/discord';
+import { destinationsFor, postToDestinations } from '@/lib/discordOutbox';
+import { addDays, getWeekEnd, getWeekStart } from '@/lib/weeks';
+
+function supabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing Supabase env vars');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// GET - Post last week's (Monday–Sunday, UTC) leaderboard to Discord
+// Meant for a scheduler (e.g. Vercel Cron); requires `Authorization: Bearer $CRON_SECRET`.
+// `?week=YYYY-MM-DD` picks the week containing that date instead.
+// Idempotent per week: a week that was already posted is not posted again.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Digest not configured' },
+        { status: 500 }
+      );
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const requestedWeek = request.nextUrl.searchParams.get('week');
+    if (requestedWeek && !/^\d{4}-\d{2}-\d{2}$/.test(requestedWeek)) {
+      return NextResponse.json({ error: 'week must be a date (YYYY-MM-DD)' }, { status: 400 });
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const weekStart = requestedWeek
+      ? getWeekStart(requestedWeek)
+      : addDays(getWeekStart(today), -7);
+    const weekEnd = getWeekEnd(weekStart);
+
+    const supabase = supabaseAdmin();
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('season_player_stats')
+      .select('user_id, session_id, created_at, games, total_damage, total_kills, milestone_games, donuts, total_rp, profiles!inner (display_name)')
+      .gte('created_at', `${weekStart}T00:00:00Z`)
+      .lt('created_at', `${addDays(weekEnd, 1)}T00:00:00Z`)
+      .order('created_at', { ascending: true });
+
+    if (rowsError) {
+      console.error('Failed to load weekly stats:', rowsError);
+      return NextResponse.json({ error: rowsError.message }, { status: 500 });
+    }
+
+    if (!rows || rows.length === 0) {
+      return NextResponse.json({ success: true, posted: false, weekStart, weekEnd, reason: 'No games that week' });
+    }
+
+    const digest = computeWeeklyDigest(
+      weekStart,
+      weekEnd,
+      rows.map((row) => ({
+        ...row,
+        display_name: (row.profiles as unknown as { display_name: string }).display_name,
+      }))
+    );
+
+    const targets = await destinationsFor(supabase, 'weekly_digest');
+    if (targets.length === 0) {
+      return NextResponse.json({ error: 'No Discord destination receives the weekly digest' }, { status: 500 });
+    }
+
+    // Claim the week first so a second invocation can't post it again
+    const { error: claimError } = await supabase
+      .from('weekly_digests')
+      .insert({ week_start: weekStart, week_end: weekEnd, players: digest.players.length });
+
+    if (claimError?.code === '23505') {
+      return NextResponse.json({ success: true, posted: false, weekStart, weekEnd, alreadyPosted: true });
+    }
+    if (claimError) {
+      console.error('Failed to claim weekly digest:', claimError);
+      return NextResponse.json({ error: claimError.message }, { status: 500 });
+    }
+
+    // Release the week so the next run can retry it
+    const releaseWeek = () => supabase.from('weekly_digests').delete().eq('week_start', weekStart);
+
+    let posts;
+    try {
+      posts = await postToDestinations(supabase, targets, {
+        kind: 'weekly_digest',
+        payload: weeklyDigestMessage(digest),
+      });
+    } catch (err) {
+      console.error('Failed to post weekly digest:', err);
+      await releaseWeek();
+      return NextResponse.json({ error: 'Failed to post to Discord' }, { status: 502 });
+    }
+
+    // Pending posts stay queued in the outbox, so the week stays claimed
+    if (posts.every((p) => p.status === 'failed')) {
+      await releaseWeek();
+      return NextResponse.json({ error: 'Failed to post to Discord' }, { status: 502 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      posted: posts.some((p) => p.status === 'sent'),
+      posts: posts.map(({ label, status }) => ({ label, status })),
+      weekStart,
+      weekEnd,
+      players: digest.players.length,
+    });
+  } catch (error) {
+    console.error('GET /api/weekly-digest error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getAccessToken } from '@/lib/auth';
+import { DISCORD_EVENTS, type DiscordDestination, type DiscordEvent } from '@/lib/discord';
+import {
+  deleteDestination,
+  getDestinations,
+  saveDestination,
+  type DestinationInput,
+} from '@/lib/discordDestinations';
+import ConfirmModal from '@/components/ConfirmModal';
+import { useToast } from '@/components/ToastProvider';
+
+const NEW_DESTINATION: DestinationInput = {
+  label: '',
+  webhook_url: '',
+  events: DISCORD_EVENTS.map((e) => e.key),
+};
+
+type EditorProps = {
+  destination: DiscordDestination | null;
+  onSaved: (destination: DiscordDestination) => void;
+  onDelete?: () => void;
+};
+
+// One destination's form; a null destination adds a new one
+function DestinationEditor({ destination, onSaved, onDelete }: EditorProps) {
+  const { success, error: showError, info } = useToast();
+
+  const [draft, setDraft] = useState<DestinationInput>(
+    destination
+      ? { label: destination.label, webhook_url: '', events: destination.events }
+      : NEW_DESTINATION
+  );
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+
+  const dirty =
+    !destination ||
+    draft.label !== destination.label ||
+    draft.webhook_url !== '' ||
+    draft.events.join() !== destination.events.join();
+
+  const toggleEvent = (key: DiscordEvent, checked: boolean) => {
+    setDraft({
+      ...draft,
+      events: checked ? [...draft.events, key] : draft.events.filter((e) => e !== key),
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveDestination(draft, destination?.id);
+      onSaved(saved);
+      setDraft(
+        destination
+          ? { label: saved.label, webhook_url: '', events: saved.events }
+          : NEW_DESTINATION
+      );
+      success(`Saved ${saved.label}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save destination');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    if (!destination) return;
+    setTesting(true);
+    try {
+      const accessToken = await getAccessToken();
+      const res = await fetch('/api/test-discord', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken ?? ''}`,
+        },
+        body: JSON.stringify({ destinationId: destination.id }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to send test post');
+
+      if (data.status === 'sent') {
+        success(`Test post sent to ${destination.label}`);
+      } else {
+        info('Discord is busy; the test post will go out on the next retry');
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to send test post');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="section-header mb-0">
+        <div className="indicator" />
+        <div className="title">{destination ? destination.label : 'Add Destination'}</div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <label className="block">
+          <span className="text-xs text-tertiary uppercase tracking-wider">Name</span>
+          <input
+            value={draft.label}
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            placeholder="#squad-stats"
+            className="input mt-1"
+          />
+        </label>
+        <label className="block sm:col-span-2">
+          <span className="text-xs text-tertiary uppercase tracking-wider">Webhook URL</span>
+          <input
+            value={draft.webhook_url}
+            onChange={(e) => setDraft({ ...draft, webhook_url: e.target.value })}
+            placeholder={
+              destination
+                ? `${destination.webhook_hint} (leave blank to keep)`
+                : 'https://discord.com/api/webhooks/...'
+            }
+            className="input mt-1 font-mono text-xs"
+            spellCheck={false}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {DISCORD_EVENTS.map((event) => (
+          <label key={event.key} className="flex items-center gap-2 cursor-pointer" title={event.description}>
+            <input
+              type="checkbox"
+              checked={draft.events.includes(event.key)}
+              onChange={(e) => toggleEvent(event.key, e.target.checked)}
+              className="w-4 h-4 rounded border-2 accent-accent cursor-pointer"
+            />
+            <span className="text-sm text-primary font-medium">{event.label}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button onClick={handleSave} disabled={saving || !dirty} className="btn-primary">
+          {saving ? 'Saving...' : destination ? 'Save' : 'Add Destination'}
+        </button>
+        {destination && (
+          <>
+            <button onClick={handleTest} disabled={testing || dirty} className="btn-secondary">
+              {testing ? 'Sending...' : 'Send Test Post'}
+            </button>
+            <button onClick={onDelete} disabled={saving} className="btn-danger">
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function DiscordDestinationsPage() {
+  const { success, error: showError } = useToast();
+
+  const [loading, setLoading] = useState(true);
+  const [destinations, setDestinations] = useState<DiscordDestination[]>([]);
+  const [deleting, setDeleting] = useState<DiscordDestination | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setDestinations(await getDestinations());
+    } catch (err) {
+      console.error('Failed to load Discord destinations:', err);
+      showError('Failed to load Discord destinations');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleSaved = (saved: DiscordDestination) => {
+    setDestinations((current) =>
+      current.some((d) => d.id === saved.id)
+        ? current.map((d) => (d.id === saved.id ? saved : d))
+        : [...current, saved]
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const destination = deleting;
+    setDeleting(null);
+    try {
+      await deleteDestination(destination.id);
+      setDestinations((current) => current.filter((d) => d.id !== destination.id));
+      success(`Deleted ${destination.label}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to delete destination');
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-[calc(100vh-4rem)] bg-primary flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-10 h-10 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+          <p className="text-sm text-secondary">Loading...</p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-[calc(100vh-4rem)] bg-primary py-8">
+      <div className="page-container page-transition">
+        <div className="mb-8">
+          <h1 className="text-2xl sm:text-3xl font-extrabold text-primary mb-1">
+            Discord <span className="text-accent">Webhooks</span>
+          </h1>
+          <p className="text-secondary text-sm">
+            Channels the tracker posts to, and what each one receives. The host picks which of
+            them get a session&apos;s summary when ending it.
+            {destinations.length === 0 && ' None yet; posts go to the default webhook set on the server.'}
+          </p>
+        </div>
+
+        <div className="space-y-6 max-w-3xl">
+          {destinations.map((destination) => (
+            <DestinationEditor
+              key={destination.id}
+              destination={destination}
+              onSaved={handleSaved}
+              onDelete={() => setDeleting(destination)}
+            />
+          ))}
+          <DestinationEditor destination={null} onSaved={handleSaved} />
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={deleting !== null}
+        title="Delete Destination"
+        message={`Stop posting to ${deleting?.label ?? 'this destination'}? Posts still waiting to be sent there are marked failed; sent posts stay in the history.`}
+        confirmText="Delete"
+        onConfirm={handleDelete}
+        onCancel={() => setDeleting(null)}
+        variant="danger"
+      />
+    </main>
+  );
+}
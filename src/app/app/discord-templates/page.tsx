@@ -0,0 +1,263 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import { validateSessionDoc } from '@/lib/sessionValidation';
+import type { SessionDoc } from '@/lib/sessionDoc';
+import {
+  DEFAULT_SESSION_TEMPLATE,
+  SESSION_TEMPLATE_FIELDS,
+  sessionSummaryMessage,
+  type SessionTemplate,
+} from '@/lib/discord';
+import { getSessionTemplate, resetSessionTemplate, saveSessionTemplate } from '@/lib/discordTemplates';
+import { useToast } from '@/components/ToastProvider';
+
+type PastSession = {
+  id: string;
+  season_number: number;
+  finalized_at: string;
+  doc: SessionDoc;
+};
+
+const PARTS: { key: keyof SessionTemplate; label: string; rows: number }[] = [
+  { key: 'title', label: 'Title', rows: 1 },
+  { key: 'description', label: 'Description', rows: 12 },
+  { key: 'player', label: 'Player field (once per player)', rows: 9 },
+  { key: 'footer', label: 'Footer', rows: 1 },
+];
+
+// Recently ended sessions to preview with
+async function fetchPastSessions(): Promise<PastSession[]> {
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('id, season_number, finalized_at, doc')
+    .not('finalized_at', 'is', null)
+    .order('finalized_at', { ascending: false })
+    .limit(10);
+
+  if (error) throw error;
+  return (data ?? []).flatMap((row) => {
+    const validation = validateSessionDoc(row.doc);
+    return validation.ok ? [{ ...row, doc: validation.value } as PastSession] : [];
+  });
+}
+
+// Discord-style **bold** for the preview
+function Markdown({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(\*\*[^*]+\*\*)/g).map((part, i) =>
+        part.startsWith('**') && part.endsWith('**') ? <strong key={i}>{part.slice(2, -2)}</strong> : part
+      )}
+    </>
+  );
+}
+
+export default function DiscordTemplatesPage() {
+  const { success, error: showError } = useToast();
+
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<SessionTemplate>(DEFAULT_SESSION_TEMPLATE);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<PastSession[]>([]);
+  const [previewId, setPreviewId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [saved, pastSessions] = await Promise.all([getSessionTemplate(), fetchPastSessions()]);
+      setDraft(saved.template);
+      setUpdatedAt(saved.updatedAt);
+      setSessions(pastSessions);
+      setPreviewId(pastSessions[0]?.id ?? '');
+    } catch (err) {
+      console.error('Failed to load Discord template:', err);
+      showError('Failed to load Discord template');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const preview = useMemo(() => {
+    const session = sessions.find((s) => s.id === previewId);
+    if (!session) return null;
+    try {
+      const message = sessionSummaryMessage(
+        {
+          doc: session.doc,
+          seasonNumber: session.season_number,
+          amended: false,
+          endedAt: session.finalized_at,
+          newRecords: [],
+        },
+        draft
+      );
+      return { message, error: null };
+    } catch (err) {
+      return { message: null, error: err instanceof Error ? err.message : 'Invalid template' };
+    }
+  }, [sessions, previewId, draft]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveSessionTemplate(draft);
+      setUpdatedAt(new Date().toISOString());
+      success('Saved Discord template');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save Discord template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    try {
+      await resetSessionTemplate();
+      setDraft(DEFAULT_SESSION_TEMPLATE);
+      setUpdatedAt(null);
+      success('Restored the default template');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to reset Discord template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-[calc(100vh-4rem)] bg-primary flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-10 h-10 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+          <p className="text-sm text-secondary">Loading...</p>
+        </div>
+      </main>
+    );
+  }
+
+  const embed = preview?.message?.embeds?.[0];
+
+  return (
+    <main className="min-h-[calc(100vh-4rem)] bg-primary py-8">
+      <div className="page-container page-transition">
+        <div className="mb-8">
+          <h1 className="text-2xl sm:text-3xl font-extrabold text-primary mb-1">
+            Discord <span className="text-accent">Templates</span>
+          </h1>
+          <p className="text-secondary text-sm">
+            The wording of the session summary posted when a session ends.
+            {updatedAt ? ` Last saved ${new Date(updatedAt).toLocaleString()}.` : ' Using the default.'}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            <div className="card p-6 space-y-4">
+              {PARTS.map(({ key, label, rows }) => (
+                <label key={key} className="block">
+                  <span className="text-xs text-tertiary uppercase tracking-wider">{label}</span>
+                  <textarea
+                    value={draft[key]}
+                    rows={rows}
+                    onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                    className="input mt-1 font-mono text-xs"
+                    spellCheck={false}
+                  />
+                </label>
+              ))}
+              <div className="flex flex-wrap gap-3">
+                <button onClick={handleSave} disabled={saving || Boolean(preview?.error)} className="btn-primary">
+                  {saving ? 'Saving...' : 'Save Template'}
+                </button>
+                <button onClick={handleReset} disabled={saving} className="btn-secondary">
+                  Reset to Default
+                </button>
+              </div>
+            </div>
+
+            <div className="card p-6">
+              <div className="section-header mb-4">
+                <div className="indicator" />
+                <div className="title">Placeholders</div>
+              </div>
+              <p className="text-xs text-secondary mb-3">
+                Loops: <code>{'{#each players}'} … {'{/each}'}</code>. Conditionals:{' '}
+                <code>{'{#if player.donuts > 0}'} … {'{else}'} … {'{/if}'}</code>.
+              </p>
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                {SESSION_TEMPLATE_FIELDS.map((f) => (
+                  <li key={f.path} className="flex justify-between gap-2">
+                    <code className="text-primary">{`{${f.path}}`}</code>
+                    <span className="text-tertiary text-right">{f.description}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className="card p-6 h-fit lg:sticky lg:top-20">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+              <div className="section-header mb-0">
+                <div className="indicator" />
+                <div className="title">Preview</div>
+              </div>
+              {sessions.length > 0 && (
+                <select
+                  value={previewId}
+                  onChange={(e) => setPreviewId(e.target.value)}
+                  aria-label="Session to preview"
+                  className="rounded-xl border border-themed bg-card px-3 py-2 text-sm text-primary outline-none focus:border-accent cursor-pointer"
+                >
+                  {sessions.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      Season {s.season_number} · {new Date(s.finalized_at).toLocaleDateString()} ·{' '}
+                      {s.doc.players.map((p) => p.name).join(', ')}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {!preview ? (
+              <p className="text-sm text-tertiary">End a session to preview the template with real stats.</p>
+            ) : preview.error ? (
+              <div className="rounded-xl border border-error/30 bg-error/10 px-4 py-3 text-sm text-error">{preview.error}</div>
+            ) : embed ? (
+              <div
+                className="rounded-lg bg-secondary p-4 border-l-4 text-sm text-primary"
+                style={{ borderLeftColor: `#${(embed.color ?? 0).toString(16).padStart(6, '0')}` }}
+              >
+                {embed.title && <div className="font-bold mb-2"><Markdown text={embed.title} /></div>}
+                {embed.description && (
+                  <div className="whitespace-pre-wrap mb-3"><Markdown text={embed.description} /></div>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {embed.fields?.map((f, i) => (
+                    <div key={i}>
+                      <div className="font-semibold mb-1">{f.name}</div>
+                      <div className="whitespace-pre-wrap text-secondary"><Markdown text={f.value} /></div>
+                    </div>
+                  ))}
+                </div>
+                {embed.footer && <div className="text-xs text-tertiary mt-3">{embed.footer.text}</div>}
+              </div>
+            ) : (
+              <>
+                <p className="text-xs text-warning mb-2">Too large for an embed; this posts as plain text.</p>
+                <div className="rounded-lg bg-secondary p-4 text-sm text-primary whitespace-pre-wrap">
+                  <Markdown text={preview.message?.content ?? ''} />
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -10,8 +10,28 @@ import {
 } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { supabase } from '@/lib/supabase/client';
-import { fetchMyProfile, fetchAllProfiles, type Profile } from '@/lib/auth';
+import { fetchMyProfile, fetchAllProfiles, getAccessToken, type Profile } from '@/lib/auth';
 import { getActiveSeason, type Season } from '@/lib/seasons';
+import type { GameEntry, GameFrame, SessionDoc } from '@/lib/sessionDoc';
+import { applySessionOp, type SessionOp } from '@/lib/sessionOps';
+import { formatFieldErrors, validateSessionDoc } from '@/lib/sessionValidation';
+import {
+  deriveStats,
+  formatAvgDamage,
+  formatAvgPlacement,
+  perGame,
+  sumTotals,
+} from '@/lib/stats';
+import {
+  DEFAULT_MILESTONE_TIERS,
+  formatMilestone,
+  normalizeMilestoneTiers,
+  type MilestoneCounts,
+} from '@/lib/milestones';
+import { normalizeRankTiers, tierForRp } from '@/lib/ranks';
+import { estimateGameRp, getSeasonRulesets, rulesAt, type RpRuleset } from '@/lib/rpRules';
+import type { DiscordDestination } from '@/lib/discord';
+import { getDestinationsFor } from '@/lib/discordDestinations';
 import ConfirmModal from '@/components/ConfirmModal';
 import { copyToClipboard } from '@/helpers/copyToClipboard';
 
@@ -28,7 +48,6 @@ function isLocalStorageAvailable(): boolean {
 }
 
 // ===== Types =====
-type GameEntry = { damage: number; kills: number };
 type Player = {
   odlId: string;
   odlierId: string | null;
@@ -38,8 +57,7 @@ type Player = {
   games: number;
   totalDamage: number;
   totalKills: number;
-  oneKGames: number;
-  twoKGames: number;
+  milestones: MilestoneCounts;
   donuts: number;
   history: GameEntry[];
   rpInput: string;
@@ -47,30 +65,28 @@ type Player = {
   rpHistory: number[];
 };
 
-type GameFrame = {
-  entries: { odlId: string; entry: GameEntry }[];
-  placement: number;
-};
+// Rebuild a player's per-game history from the session's game log
+function playerHistoryFromGames(games: GameFrame[], odlId: string): GameEntry[] {
+  return games
+    .map((g) => g.entries.find((e) => e.odlId === odlId)?.entry)
+    .filter((e): e is GameEntry => e !== undefined);
+}
 
-type SessionDoc = {
-  players: {
-    odlId: string;
-    odlierId: string | null;
-    name: string;
-    games: number;
-    totalDamage: number;
-    totalKills: number;
-    oneKGames: number;
-    twoKGames: number;
-    donuts: number;
-    totalRP: number;
-  }[];
-  sessionGames: number;
-  wins: number;
-  totalPlacement: number;
-  placements: number[];
-  lastUpdated?: string;
-};
+// Each season player's ranked RP before this session: starting RP plus saved session RP
+async function fetchSeasonRankedRp(seasonId: string): Promise<Record<string, number>> {
+  const [{ data: seasonPlayers, error: playersError }, { data: statsRows, error: statsError }] =
+    await Promise.all([
+      supabase.from('season_players').select('user_id, starting_rp').eq('season_id', seasonId),
+      supabase.from('season_player_stats').select('user_id, total_rp').eq('season_id', seasonId),
+    ]);
+  if (playersError) throw playersError;
+  if (statsError) throw statsError;
+
+  const rp: Record<string, number> = {};
+  for (const p of seasonPlayers ?? []) rp[p.user_id] = p.starting_rp ?? 0;
+  for (const row of statsRows ?? []) rp[row.user_id] = (rp[row.user_id] ?? 0) + (row.total_rp || 0);
+  return rp;
+}
 
 function InGameTrackerContent() {
   const router = useRouter();
@@ -85,6 +101,12 @@ function InGameTrackerContent() {
 
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [isHost, setIsHost] = useState(false);
+  // Set once the session has been ended; the tracker is read-only from then on
+  const [finalizedAt, setFinalizedAt] = useState<string | null>(null);
+  // Set when the sweeper archived the session for being idle; the host can still end it
+  const [archivedAt, setArchivedAt] = useState<string | null>(null);
+  const isReadOnly = Boolean(finalizedAt || archivedAt);
+  const canHostEdit = isHost && !isReadOnly;
 
   const makeNewPlayer = useCallback(
     (odlierId: string | null = null, name: string = ''): Player => ({
@@ -96,8 +118,7 @@ function InGameTrackerContent() {
       games: 0,
       totalDamage: 0,
       totalKills: 0,
-      oneKGames: 0,
-      twoKGames: 0,
+      milestones: {},
       donuts: 0,
       history: [],
       rpInput: '',
@@ -113,7 +134,11 @@ function InGameTrackerContent() {
   const [wins, setWins] = useState(0);
   const [totalPlacement, setTotalPlacement] = useState(0);
   const [placements, setPlacements] = useState<number[]>([]);
+  const [milestoneTiers, setMilestoneTiers] = useState<number[]>(DEFAULT_MILESTONE_TIERS);
   const [placementInput, setPlacementInput] = useState('');
+  // Used to pre-fill RP changes from the season's ranked scoring rules
+  const [rulesets, setRulesets] = useState<RpRuleset[]>([]);
+  const [seasonRankedRp, setSeasonRankedRp] = useState<Record<string, number>>({});
 
   const [showNewSessionConfirm, setShowNewSessionConfirm] = useState(false);
   const [showEndSession, setShowEndSession] = useState(false);
@@ -121,6 +146,11 @@ function InGameTrackerContent() {
   const [selectedPlayerIds, setSelectedPlayerIds] = useState<string[]>([]);
   const [posting, setPosting] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [showReopenConfirm, setShowReopenConfirm] = useState(false);
+  const [reopening, setReopening] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [destinations, setDestinations] = useState<Pick<DiscordDestination, 'id' | 'label' | 'events'>[]>([]);
+  const [selectedDestinationIds, setSelectedDestinationIds] = useState<string[]>([]);
   const [copied, setCopied] = useState(false);
   const [modalError, setModalError] = useState<string | null>(null);
 
@@ -151,7 +181,11 @@ function InGameTrackerContent() {
   // Track if we have pending unsaved changes
   const [hasPendingChanges, setHasPendingChanges] = useState(false);
 
+  // Revision of the stored doc this client last saw; every write is based on it
+  const revision = useRef<number | null>(null);
+
   const MAX_PLAYERS = 3;
+  const MAX_SAVE_ATTEMPTS = 3;
 
   // Helper to show notification modal
   const showNotificationModal = (
@@ -165,46 +199,42 @@ function InGameTrackerContent() {
     setShowNotification(true);
   };
 
-  // Helper to save full state to localStorage (with availability check)
-  const saveToLocalStorage = useCallback(
-    (sessionId: string, doc: SessionDoc): boolean => {
-      if (!isLocalStorageAvailable()) {
-        console.warn('localStorage not available (possibly Private Browsing)');
-        return false;
-      }
-      try {
-        localStorage.setItem(
-          `apex:session:${sessionId}:fullState`,
-          JSON.stringify({
-            ...doc,
-            lastUpdated: new Date().toISOString(),
-          })
-        );
-        return true;
-      } catch (err) {
-        console.error('Failed to save to localStorage:', err);
-        return false;
-      }
-    },
-    []
-  );
-
-  // Helper to load from localStorage
-  const loadFromLocalStorage = useCallback(
-    (sessionId: string): (SessionDoc & { lastUpdated?: string }) | null => {
-      if (!isLocalStorageAvailable()) return null;
-      try {
-        const stored = localStorage.getItem(
-          `apex:session:${sessionId}:fullState`
-        );
-        if (!stored) return null;
-        return JSON.parse(stored);
-      } catch (err) {
-        console.error('Failed to load from localStorage:', err);
-        return null;
-      }
+  // Replace session state with a stored doc, keeping any in-progress inputs
+  const applyServerDoc = useCallback(
+    (doc: SessionDoc) => {
+      setPlayers((currentPlayers) =>
+        doc.players.map((p) => {
+          const currentPlayer = currentPlayers.find(
+            (cp) => cp.odlId === p.odlId
+          );
+          return {
+            ...makeNewPlayer(p.odlierId, p.name),
+            odlId: p.odlId,
+            odlierId: p.odlierId,
+            name: p.name,
+            games: p.games,
+            totalDamage: p.totalDamage,
+            totalKills: p.totalKills,
+            milestones: p.milestones,
+            donuts: p.donuts,
+            totalRP: p.totalRP,
+            // Preserve input fields if user is mid-edit
+            rpInput: currentPlayer?.rpInput || '',
+            damageInput: currentPlayer?.damageInput || '',
+            killsInput: currentPlayer?.killsInput || '',
+            history: playerHistoryFromGames(doc.games || [], p.odlId),
+            rpHistory: p.rpHistory || [],
+          };
+        })
+      );
+      setMilestoneTiers(doc.milestoneTiers);
+      setSessionGames(doc.sessionGames);
+      setGameHistory(doc.games || []);
+      setWins(doc.wins);
+      setTotalPlacement(doc.totalPlacement);
+      setPlacements(doc.placements || []);
     },
-    []
+    [makeNewPlayer]
   );
 
   const loadData = useCallback(async () => {
@@ -224,19 +254,37 @@ function InGameTrackerContent() {
         return;
       }
 
+      // RP suggestions are a convenience; the tracker works without them
+      Promise.all([getSeasonRulesets(seasonData.id), fetchSeasonRankedRp(seasonData.id)])
+        .then(([seasonRulesets, rankedRp]) => {
+          setRulesets(seasonRulesets);
+          setSeasonRankedRp(rankedRp);
+        })
+        .catch((err) => console.error('Failed to load RP rules:', err));
+
+      // Without destinations, posts go to the default webhook
+      getDestinationsFor(['session_end', 'records'])
+        .then((list) => {
+          setDestinations(list);
+          setSelectedDestinationIds(list.map((d) => d.id));
+        })
+        .catch((err) => console.error('Failed to load Discord destinations:', err));
+
       if (sessionCodeFromUrl) {
         // Lookup session by code
-        const res = await fetch(`/api/post-session?code=${sessionCodeFromUrl}`);
+        const accessToken = await getAccessToken();
+        const res = await fetch(`/api/post-session?code=${sessionCodeFromUrl}`, {
+          headers: { Authorization: `Bearer ${accessToken ?? ''}` },
+        });
         const json = await res.json();
 
         if (!res.ok || !json.session) {
-          setError('Session not found');
+          setError(json.error || 'Session not found');
           setLoading(false);
           return;
         }
 
         const sessionData = json.session;
-        const doc = sessionData.doc as SessionDoc;
         const writeKey = isLocalStorageAvailable()
           ? localStorage.getItem(`apex:session:${sessionData.id}:writeKey`)
           : null;
@@ -246,41 +294,22 @@ function InGameTrackerContent() {
         setIsHost(isHostUser);
         setSessionId(sessionData.id);
         setSessionCode(sessionData.session_code);
+        setFinalizedAt(sessionData.finalized_at ?? null);
+        setArchivedAt(sessionData.archived_at ?? null);
 
-        // Try to load from localStorage first
-        const localData = loadFromLocalStorage(sessionData.id);
-
-        // Use database data but merge with localStorage if available and newer
-        const finalDoc =
-          localData &&
-          localData.lastUpdated &&
-          new Date(localData.lastUpdated) > new Date(sessionData.updated_at)
-            ? localData
-            : doc;
-
-        setPlayers(
-          finalDoc.players.map((p) => ({
-            ...makeNewPlayer(p.odlierId, p.name),
-            odlId: p.odlId,
-            odlierId: p.odlierId,
-            name: p.name,
-            games: p.games,
-            totalDamage: p.totalDamage,
-            totalKills: p.totalKills,
-            oneKGames: p.oneKGames,
-            twoKGames: p.twoKGames,
-            donuts: p.donuts,
-            totalRP: p.totalRP,
-          }))
-        );
-        setSessionGames(finalDoc.sessionGames);
-        setWins(finalDoc.wins);
-        setTotalPlacement(finalDoc.totalPlacement);
-        setPlacements(finalDoc.placements || []);
+        // The stored doc is the source of truth
+        const validation = validateSessionDoc(sessionData.doc);
+        if (!validation.ok) {
+          setError(`Session data is invalid: ${formatFieldErrors(validation.errors)}`);
+          return;
+        }
+        applyServerDoc(validation.value);
+        revision.current = sessionData.revision;
 
         setLastRefreshed(new Date());
       } else {
         setPlayers([makeNewPlayer(profileData.id, profileData.display_name)]);
+        setMilestoneTiers(normalizeMilestoneTiers(seasonData.milestone_tiers));
         setIsHost(true);
       }
     } catch (err) {
@@ -289,12 +318,16 @@ function InGameTrackerContent() {
     } finally {
       setLoading(false);
     }
-  }, [sessionCodeFromUrl, makeNewPlayer, loadFromLocalStorage]);
+  }, [sessionCodeFromUrl, makeNewPlayer, applyServerDoc]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  // Ops are sent one at a time, in order; skip incoming docs while any are in flight
+  const opQueue = useRef<Promise<unknown>>(Promise.resolve());
+  const pendingOps = useRef(0);
+
   // ===== IMPROVED: Sync with server (works for both host and non-host) =====
   const syncWithServer = useCallback(async () => {
     if (!sessionId) return;
@@ -303,73 +336,35 @@ function InGameTrackerContent() {
     try {
       const { data: sessionData, error: sessionError } = await supabase
         .from('sessions')
-        .select('*')
+        .select('doc, revision, finalized_at, archived_at')
         .eq('id', sessionId)
         .maybeSingle();
 
       if (sessionError) throw sessionError;
 
       if (sessionData) {
-        const serverDoc = sessionData.doc as SessionDoc;
-        const localData = loadFromLocalStorage(sessionId);
-
-        const serverTime = new Date(sessionData.updated_at).getTime();
-        const localTime = localData?.lastUpdated
-          ? new Date(localData.lastUpdated).getTime()
-          : 0;
-
-        // For non-hosts: always use server data
-        // For hosts: use whichever is newer, but prefer server to avoid conflicts
-        if (!isHost || serverTime >= localTime) {
-          setPlayers((currentPlayers) =>
-            serverDoc.players.map((p) => {
-              const currentPlayer = currentPlayers.find(
-                (cp) => cp.odlId === p.odlId
-              );
-              return {
-                ...makeNewPlayer(p.odlierId, p.name),
-                odlId: p.odlId,
-                odlierId: p.odlierId,
-                name: p.name,
-                games: p.games,
-                totalDamage: p.totalDamage,
-                totalKills: p.totalKills,
-                oneKGames: p.oneKGames,
-                twoKGames: p.twoKGames,
-                donuts: p.donuts,
-                totalRP: p.totalRP,
-                // Preserve input fields if user is mid-edit
-                rpInput: currentPlayer?.rpInput || '',
-                damageInput: currentPlayer?.damageInput || '',
-                killsInput: currentPlayer?.killsInput || '',
-                history: currentPlayer?.history || [],
-                rpHistory: currentPlayer?.rpHistory || [],
-              };
-            })
-          );
-          setSessionGames(serverDoc.sessionGames);
-          setWins(serverDoc.wins);
-          setTotalPlacement(serverDoc.totalPlacement);
-          setPlacements(serverDoc.placements || []);
-
-          // Update local cache
-          saveToLocalStorage(sessionId, serverDoc);
+        setFinalizedAt(sessionData.finalized_at ?? null);
+        setArchivedAt(sessionData.archived_at ?? null);
+        const validation = validateSessionDoc(sessionData.doc);
+        if (!validation.ok) {
+          console.error('Ignoring invalid session doc:', validation.errors);
+        } else if (pendingOps.current === 0) {
+          applyServerDoc(validation.value);
+          revision.current = sessionData.revision;
+          setLastRefreshed(new Date());
         }
-
-        setLastRefreshed(new Date());
-        setHasPendingChanges(false);
       }
     } catch (err) {
       console.error('Failed to sync with server:', err);
       showNotificationModal(
         'Sync Failed',
-        'Could not fetch latest data. Your changes are saved locally.',
+        'Could not fetch latest data. Please check your connection.',
         'error'
       );
     } finally {
       setRefreshing(false);
     }
-  }, [sessionId, isHost, loadFromLocalStorage, makeNewPlayer, saveToLocalStorage]);
+  }, [sessionId, applyServerDoc]);
 
   // ===== Handle iOS Safari visibility changes =====
   useEffect(() => {
@@ -430,6 +425,66 @@ function InGameTrackerContent() {
     };
   }, [sessionId, syncWithServer, savingRP, saving]);
 
+  // Send operations to the server, based on the last revision we saw. When
+  // someone else wrote first the server answers 409 with its doc; we catch up to
+  // that revision and send the same ops again, so both changes are kept.
+  const sendOps = useCallback(
+    (ops: SessionOp[], playerIdUpdating?: string): Promise<SessionDoc> => {
+      pendingOps.current += 1;
+      setHasPendingChanges(true);
+
+      const run = async (): Promise<SessionDoc> => {
+        const writeKey = isLocalStorageAvailable()
+          ? localStorage.getItem(`apex:session:${sessionId}:writeKey`)
+          : null;
+        // Lets the server verify who is editing when we are not the host
+        const accessToken = await getAccessToken();
+
+        let latestDoc: SessionDoc | null = null;
+        for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+          const response = await fetch('/api/post-session', {
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/json',
+              ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+            },
+            body: JSON.stringify({
+              sessionId,
+              baseRevision: revision.current,
+              writeKey: writeKey || null,
+              ops,
+              playerIdUpdating,
+            }),
+          });
+          const json = await response.json().catch(() => ({}));
+
+          if (response.ok) {
+            revision.current = json.revision;
+            return json.doc as SessionDoc;
+          }
+          if (response.status !== 409 || !json.doc) {
+            throw new Error(json.error || `HTTP ${response.status}`);
+          }
+          latestDoc = json.doc as SessionDoc;
+          revision.current = json.revision;
+        }
+
+        // Show what the server has, so the retry starts from the current doc
+        if (latestDoc) applyServerDoc(latestDoc);
+        throw new Error('Session is busy. Please try again.');
+      };
+
+      const result = opQueue.current.then(run, run);
+      opQueue.current = result.catch(() => undefined);
+
+      return result.finally(() => {
+        pendingOps.current -= 1;
+        if (pendingOps.current === 0) setHasPendingChanges(false);
+      });
+    },
+    [sessionId, applyServerDoc]
+  );
+
   const currentDoc: SessionDoc = useMemo(
     () => ({
       players: players.map((p) => ({
@@ -439,56 +494,49 @@ function InGameTrackerContent() {
         games: p.games,
         totalDamage: p.totalDamage,
         totalKills: p.totalKills,
-        oneKGames: p.oneKGames,
-        twoKGames: p.twoKGames,
+        milestones: p.milestones,
         donuts: p.donuts,
         totalRP: p.totalRP,
+        rpHistory: p.rpHistory,
       })),
+      milestoneTiers,
       sessionGames,
       wins,
       totalPlacement,
       placements,
+      games: gameHistory,
     }),
-    [players, sessionGames, wins, totalPlacement, placements]
+    [players, milestoneTiers, sessionGames, wins, totalPlacement, placements, gameHistory]
   );
 
-  const saveTimer = useRef<NodeJS.Timeout | null>(null);
-  const lastSavedDoc = useRef<string>('');
+  // Host edits: apply locally right away, then confirm with the server
+  const runOps = (ops: SessionOp[]): boolean => {
+    if (isReadOnly) return false;
+    let nextDoc: SessionDoc;
+    try {
+      nextDoc = ops.reduce(applySessionOp, currentDoc);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid change');
+      return false;
+    }
+    applyServerDoc(nextDoc);
+    if (!sessionId) return true;
 
-  useEffect(() => {
-    if (!sessionId || !isHost) return;
-    const docString = JSON.stringify(currentDoc);
-    if (docString === lastSavedDoc.current) return;
-    
-    setHasPendingChanges(true);
-    
-    if (saveTimer.current) clearTimeout(saveTimer.current);
-
-    saveTimer.current = setTimeout(async () => {
-      try {
-        const writeKey = isLocalStorageAvailable()
-          ? localStorage.getItem(`apex:session:${sessionId}:writeKey`)
-          : null;
-        const response = await fetch('/api/post-session', {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sessionId, writeKey, doc: currentDoc }),
-        });
-        if (response.ok) {
-          lastSavedDoc.current = docString;
-          setHasPendingChanges(false);
-          // Save to localStorage as backup
-          saveToLocalStorage(sessionId, currentDoc);
-        }
-      } catch (err) {
+    sendOps(ops)
+      .then((savedDoc) => {
+        if (pendingOps.current === 0) applyServerDoc(savedDoc);
+      })
+      .catch((err) => {
         console.error('Failed to save session:', err);
-      }
-    }, 500);
-
-    return () => {
-      if (saveTimer.current) clearTimeout(saveTimer.current);
-    };
-  }, [currentDoc, sessionId, isHost, saveToLocalStorage]);
+        showNotificationModal(
+          'Save Failed',
+          `Your last change was not saved. Error: ${err instanceof Error ? err.message : 'Unknown error'}`,
+          'error'
+        );
+        syncWithServer();
+      });
+    return true;
+  };
 
   // Realtime subscription for session updates
   useEffect(() => {
@@ -505,51 +553,23 @@ function InGameTrackerContent() {
           filter: `id=eq.${sessionId}`,
         },
         (payload) => {
+          setFinalizedAt(payload.new.finalized_at ?? null);
+          setArchivedAt(payload.new.archived_at ?? null);
+
           // Don't overwrite if we're currently saving
-          if (savingRP) {
-            console.log('Skipping realtime update while saving RP');
+          if (savingRP || pendingOps.current > 0) {
+            console.log('Skipping realtime update while saving');
             return;
           }
 
-          const doc = payload.new.doc as SessionDoc;
-
-          setPlayers((currentPlayers) => {
-            return doc.players.map((p) => {
-              const isMe = p.odlierId === profile?.id;
-              const myCurrentPlayer = currentPlayers.find(
-                (cp) => cp.odlId === p.odlId
-              );
-
-              // For the current user's RP: use the database value
-              // This ensures RP updates from the user are reflected
-              // (they saved to DB, now DB is pushing back the saved value)
-              return {
-                ...makeNewPlayer(p.odlierId, p.name),
-                odlId: p.odlId,
-                odlierId: p.odlierId,
-                name: p.name,
-                games: p.games,
-                totalDamage: p.totalDamage,
-                totalKills: p.totalKills,
-                oneKGames: p.oneKGames,
-                twoKGames: p.twoKGames,
-                donuts: p.donuts,
-                // Always use DB value for totalRP - it's the source of truth
-                totalRP: p.totalRP,
-                // Preserve input field only if we're mid-edit
-                rpInput: isMe && myCurrentPlayer ? myCurrentPlayer.rpInput : '',
-                rpHistory: myCurrentPlayer?.rpHistory || [],
-                history: myCurrentPlayer?.history || [],
-                damageInput: isMe && myCurrentPlayer ? myCurrentPlayer.damageInput : '',
-                killsInput: isMe && myCurrentPlayer ? myCurrentPlayer.killsInput : '',
-              };
-            });
-          });
-
-          setSessionGames(doc.sessionGames);
-          setWins(doc.wins);
-          setTotalPlacement(doc.totalPlacement);
-          setPlacements(doc.placements || []);
+          // Always use DB values - the server is the source of truth
+          const validation = validateSessionDoc(payload.new.doc);
+          if (!validation.ok) {
+            console.error('Ignoring invalid session doc:', validation.errors);
+            return;
+          }
+          applyServerDoc(validation.value);
+          revision.current = payload.new.revision;
           setLastRefreshed(new Date());
         }
       )
@@ -561,7 +581,7 @@ function InGameTrackerContent() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [sessionId, profile?.id, makeNewPlayer, savingRP]);
+  }, [sessionId, applyServerDoc, savingRP]);
 
   const addToSelection = (playerId: string) => {
     if (selectedPlayerIds.length + players.length >= MAX_PLAYERS) {
@@ -579,18 +599,25 @@ function InGameTrackerContent() {
   };
 
   const confirmAddPlayers = () => {
-    if (!isHost) return;
+    if (!canHostEdit) return;
 
-    const newPlayers = selectedPlayerIds
-      .map((id) => {
+    const ops = selectedPlayerIds
+      .map((id): SessionOp | null => {
         const selectedProfile = allProfiles.find((p) => p.id === id);
         if (!selectedProfile) return null;
         if (players.some((p) => p.odlierId === id)) return null;
-        return makeNewPlayer(selectedProfile.id, selectedProfile.display_name);
+        return {
+          type: 'addPlayer',
+          player: {
+            odlId: crypto.randomUUID(),
+            odlierId: selectedProfile.id,
+            name: selectedProfile.display_name,
+          },
+        };
       })
-      .filter((p): p is Player => p !== null);
+      .filter((op): op is SessionOp => op !== null);
 
-    setPlayers((prev) => [...prev, ...newPlayers]);
+    if (ops.length > 0 && !runOps(ops)) return;
     setShowAddPlayer(false);
     setSelectedPlayerIds([]);
     setModalError(null);
@@ -603,8 +630,8 @@ function InGameTrackerContent() {
   };
 
   const removePlayer = (odlId: string) => {
-    if (!isHost) return;
-    setPlayers((p) => p.filter((pl) => pl.odlId !== odlId));
+    if (!canHostEdit) return;
+    runOps([{ type: 'removePlayer', odlId }]);
   };
 
   const updateField = <K extends keyof Player>(
@@ -613,7 +640,7 @@ function InGameTrackerContent() {
     value: Player[K]
   ) => {
     const player = players.find((p) => p.odlId === odlId);
-    if (!player) return;
+    if (!player || isReadOnly) return;
     const isRpField =
       field === 'rpInput' || field === 'totalRP' || field === 'rpHistory';
     const isMyPlayer = player.odlierId === profile?.id;
@@ -625,7 +652,7 @@ function InGameTrackerContent() {
   };
 
   const addGameAll = () => {
-    if (!isHost) return;
+    if (!canHostEdit) return;
     const placement = parseInt(placementInput, 10);
     if (!Number.isFinite(placement) || placement < 1 || placement > 20) {
       setError('Please enter a valid placement (1-20)');
@@ -640,251 +667,159 @@ function InGameTrackerContent() {
     }
     setError(null);
 
-    const frame: GameFrame = { entries: [], placement };
-    setPlayers((prev) =>
-      prev.map((pl) => {
-        const dmg = Math.max(0, Number(pl.damageInput) || 0);
-        const k = Math.max(0, Number(pl.killsInput) || 0);
-        const isDonut = dmg === 0 && k === 0;
-        frame.entries.push({
+    const added = runOps([
+      {
+        type: 'addGame',
+        id: crypto.randomUUID(),
+        placement,
+        playedAt: new Date().toISOString(),
+        entries: players.map((pl) => ({
           odlId: pl.odlId,
-          entry: { damage: dmg, kills: k },
-        });
-        return {
-          ...pl,
-          games: pl.games + 1,
-          totalDamage: pl.totalDamage + dmg,
-          totalKills: pl.totalKills + k,
-          oneKGames: pl.oneKGames + (dmg >= 1000 && dmg < 2000 ? 1 : 0),
-          twoKGames: pl.twoKGames + (dmg >= 2000 ? 1 : 0),
-          donuts: pl.donuts + (isDonut ? 1 : 0),
-          damageInput: '',
-          killsInput: '',
-          history: [...pl.history, { damage: dmg, kills: k }],
-        };
-      })
+          entry: {
+            damage: Math.max(0, Number(pl.damageInput) || 0),
+            kills: Math.max(0, Number(pl.killsInput) || 0),
+          },
+        })),
+      },
+    ]);
+    if (!added) return;
+
+    setPlayers((prev) =>
+      prev.map((pl) => ({ ...pl, damageInput: '', killsInput: '' }))
     );
-    setSessionGames((g) => g + 1);
-    setGameHistory((h) => [...h, frame]);
-    setTotalPlacement((tp) => tp + placement);
-    setPlacements((p) => [...p, placement]);
     setPlacementInput('');
-    if (placement === 1) setWins((w) => w + 1);
   };
 
   const undoGameAll = () => {
-    if (!isHost || gameHistory.length === 0) return;
+    if (!canHostEdit || gameHistory.length === 0) return;
     const last = gameHistory[gameHistory.length - 1];
+    if (!runOps([{ type: 'undoGame' }])) return;
+
+    // Put the undone game back into the inputs so it can be corrected
     setPlayers((prev) =>
       prev.map((pl) => {
         const rec = last.entries.find((e) => e.odlId === pl.odlId);
         if (!rec) return pl;
-        const { damage, kills } = rec.entry;
-        const wasDonut = damage === 0 && kills === 0;
         return {
           ...pl,
-          games: Math.max(0, pl.games - 1),
-          totalDamage: Math.max(0, pl.totalDamage - damage),
-          totalKills: Math.max(0, pl.totalKills - kills),
-          oneKGames: Math.max(
-            0,
-            pl.oneKGames - (damage >= 1000 && damage < 2000 ? 1 : 0)
-          ),
-          twoKGames: Math.max(0, pl.twoKGames - (damage >= 2000 ? 1 : 0)),
-          donuts: Math.max(0, pl.donuts - (wasDonut ? 1 : 0)),
-          damageInput: String(damage || ''),
-          killsInput: String(kills || ''),
-          history: pl.history.slice(0, -1),
+          damageInput: String(rec.entry.damage || ''),
+          killsInput: String(rec.entry.kills || ''),
         };
       })
     );
-    setSessionGames((g) => Math.max(0, g - 1));
-    setGameHistory((h) => h.slice(0, -1));
-    setTotalPlacement((tp) => Math.max(0, tp - last.placement));
-    setPlacements((p) => p.slice(0, -1));
     setPlacementInput(String(last.placement));
-    if (last.placement === 1) setWins((w) => Math.max(0, w - 1));
   };
 
+  // Pre-fill each player's RP change when a new game comes in (from this
+  // device or another). Games already in the session when it loads are left
+  // alone since their RP may have been entered already.
+  const lastScoredGame = useRef<{ id: string | null; count: number } | null>(null);
+  useEffect(() => {
+    if (loading) return;
+    const last = gameHistory[gameHistory.length - 1];
+    const seen = lastScoredGame.current;
+    lastScoredGame.current = { id: last?.id ?? null, count: gameHistory.length };
+    if (!seen || !last || gameHistory.length <= seen.count || last.id === seen.id) return;
+
+    const rules = rulesAt(rulesets, last.playedAt);
+    const rankTiers = normalizeRankTiers(season?.rank_tiers);
+    setPlayers((prev) =>
+      prev.map((pl) => {
+        const rec = last.entries.find((e) => e.odlId === pl.odlId);
+        if (!rec || pl.rpInput !== '') return pl;
+        const rankedRp = (pl.odlierId ? seasonRankedRp[pl.odlierId] ?? 0 : 0) + pl.totalRP;
+        const { rank } = tierForRp(rankedRp, rankTiers);
+        const estimate = estimateGameRp(rules, { placement: last.placement, kills: rec.entry.kills }, rank);
+        return { ...pl, rpInput: String(estimate) };
+      })
+    );
+  }, [loading, gameHistory, rulesets, season, seasonRankedRp]);
+
   // ===== CRITICAL FIX: commitRP now properly handles race conditions =====
   const commitRP = async (odlId: string) => {
     const player = players.find((p) => p.odlId === odlId);
-    if (!player) return;
+    if (!player || isReadOnly) return;
     if (!isHost && player.odlierId !== profile?.id) return;
     const delta = Number(player.rpInput);
     if (!Number.isFinite(delta) || player.rpInput === '') return;
 
-    const newTotalRP = player.totalRP + delta;
-    const newRPHistory = [...player.rpHistory, delta];
+    const op: SessionOp = { type: 'commitRp', odlId, delta };
+
+    if (!sessionId) {
+      // No session yet - just update locally
+      if (!runOps([op])) return;
+      updateField(odlId, 'rpInput', '');
+      return;
+    }
 
     // Show saving state
     setSavingRP(odlId);
 
-    // ===== KEY FIX: Build the complete updated state BEFORE any async operations =====
-    const updatedPlayers = players.map((pl) =>
-      pl.odlId === odlId
-        ? {
-            ...pl,
-            totalRP: newTotalRP,
-            rpHistory: newRPHistory,
-            rpInput: '',
-          }
-        : pl
-    );
-
-    // Build the doc to save using the updated players array (NOT currentDoc which may be stale)
-    const updatedDoc: SessionDoc = {
-      players: updatedPlayers.map((p) => ({
-        odlId: p.odlId,
-        odlierId: p.odlierId,
-        name: p.name,
-        games: p.games,
-        totalDamage: p.totalDamage,
-        totalKills: p.totalKills,
-        oneKGames: p.oneKGames,
-        twoKGames: p.twoKGames,
-        donuts: p.donuts,
-        totalRP: p.totalRP,
-      })),
-      sessionGames,
-      wins,
-      totalPlacement,
-      placements,
-    };
-
     // Save to database FIRST, then update local state on success
-    if (sessionId && player.odlierId) {
-      try {
-        // Get writeKey (only host has this)
-        const writeKey = isLocalStorageAvailable()
-          ? localStorage.getItem(`apex:session:${sessionId}:writeKey`)
-          : null;
-
-        const response = await fetch('/api/post-session', {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            sessionId,
-            writeKey: writeKey || null, // Send null if not host
-            doc: updatedDoc,
-            playerIdUpdating: player.odlierId, // Tell API which player is updating
-          }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || `HTTP ${response.status}`);
-        }
-
-        // SUCCESS: Now update local state
-        setPlayers(updatedPlayers);
-
-        // Update the lastSavedDoc ref to prevent duplicate saves from the debounced effect
-        lastSavedDoc.current = JSON.stringify(updatedDoc);
+    try {
+      // Tell API which player is updating
+      const savedDoc = await sendOps([op], player.odlierId ?? undefined);
 
-        // Save to localStorage as backup
-        saveToLocalStorage(sessionId, updatedDoc);
+      // SUCCESS: Now update local state from the server's doc
+      applyServerDoc(savedDoc);
+      updateField(odlId, 'rpInput', '');
 
-        console.log(
-          `✅ RP saved: ${player.name} ${delta >= 0 ? '+' : ''}${delta} (Total: ${newTotalRP})`
-        );
-      } catch (err) {
-        console.error('Failed to save RP to database:', err);
-        showNotificationModal(
-          'Failed to Save RP',
-          `Could not save your RP change. Please try again. Error: ${err instanceof Error ? err.message : 'Unknown error'}`,
-          'error'
-        );
-        // Don't update local state on failure - keep the old value
-      } finally {
-        setSavingRP(null);
-      }
-    } else {
-      // No session yet - just update locally
-      setPlayers(updatedPlayers);
+      const saved = savedDoc.players.find((p) => p.odlId === odlId);
+      console.log(
+        `✅ RP saved: ${player.name} ${delta >= 0 ? '+' : ''}${delta} (Total: ${saved?.totalRP})`
+      );
+    } catch (err) {
+      console.error('Failed to save RP to database:', err);
+      showNotificationModal(
+        'Failed to Save RP',
+        `Could not save your RP change. ${err instanceof Error ? err.message : 'Please try again.'}`,
+        'error'
+      );
+      // Don't update local state on failure - keep the old value
+    } finally {
       setSavingRP(null);
     }
   };
 
   const undoRP = async (odlId: string) => {
     const player = players.find((p) => p.odlId === odlId);
-    if (!player || player.rpHistory.length === 0) return;
+    if (!player || isReadOnly || player.rpHistory.length === 0) return;
     if (!isHost && player.odlierId !== profile?.id) return;
-    
-    const last = player.rpHistory[player.rpHistory.length - 1];
-    const newTotalRP = player.totalRP - last;
-    const newRPHistory = player.rpHistory.slice(0, -1);
-
-    setSavingRP(odlId);
-
-    const updatedPlayers = players.map((pl) =>
-      pl.odlId === odlId
-        ? {
-            ...pl,
-            totalRP: newTotalRP,
-            rpHistory: newRPHistory,
-            rpInput: String(last),
-          }
-        : pl
-    );
-
-    const updatedDoc: SessionDoc = {
-      players: updatedPlayers.map((p) => ({
-        odlId: p.odlId,
-        odlierId: p.odlierId,
-        name: p.name,
-        games: p.games,
-        totalDamage: p.totalDamage,
-        totalKills: p.totalKills,
-        oneKGames: p.oneKGames,
-        twoKGames: p.twoKGames,
-        donuts: p.donuts,
-        totalRP: p.totalRP,
-      })),
-      sessionGames,
-      wins,
-      totalPlacement,
-      placements,
-    };
 
-    if (sessionId && player.odlierId) {
-      try {
-        const writeKey = isLocalStorageAvailable()
-          ? localStorage.getItem(`apex:session:${sessionId}:writeKey`)
-          : null;
+    const last = player.rpHistory[player.rpHistory.length - 1];
+    const op: SessionOp = { type: 'undoRp', odlId };
 
-        const response = await fetch('/api/post-session', {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            sessionId,
-            writeKey: writeKey || null,
-            doc: updatedDoc,
-            playerIdUpdating: player.odlierId,
-          }),
-        });
+    if (!sessionId) {
+      if (!runOps([op])) return;
+      updateField(odlId, 'rpInput', String(last));
+      return;
+    }
 
-        if (!response.ok) {
-          throw new Error('Failed to undo RP');
-        }
+    setSavingRP(odlId);
 
-        setPlayers(updatedPlayers);
-        lastSavedDoc.current = JSON.stringify(updatedDoc);
-        saveToLocalStorage(sessionId, updatedDoc);
-      } catch (err) {
-        console.error('Failed to undo RP:', err);
-        showNotificationModal('Error', 'Failed to undo RP change', 'error');
-      } finally {
-        setSavingRP(null);
-      }
-    } else {
-      setPlayers(updatedPlayers);
+    try {
+      const savedDoc = await sendOps([op], player.odlierId ?? undefined);
+      applyServerDoc(savedDoc);
+      updateField(odlId, 'rpInput', String(last));
+    } catch (err) {
+      console.error('Failed to undo RP:', err);
+      showNotificationModal(
+        'Error',
+        `Failed to undo RP change. ${err instanceof Error ? err.message : 'Please try again.'}`,
+        'error'
+      );
+    } finally {
       setSavingRP(null);
     }
   };
 
   const createSession = async () => {
     if (!profile || !season) return;
+    const validation = validateSessionDoc(currentDoc);
+    if (!validation.ok) {
+      setError(`Session data is invalid: ${formatFieldErrors(validation.errors)}`);
+      return;
+    }
     try {
       setError(null);
       const res = await fetch('/api/post-session', {
@@ -905,6 +840,7 @@ function InGameTrackerContent() {
       if (isLocalStorageAvailable()) {
         localStorage.setItem(`apex:session:${newSessionId}:writeKey`, writeKey);
       }
+      revision.current = json.revision;
       setSessionId(newSessionId);
       setSessionCode(newSessionCode);
       setIsHost(true);
@@ -930,9 +866,13 @@ function InGameTrackerContent() {
     setWins(0);
     setTotalPlacement(0);
     setPlacements([]);
+    setMilestoneTiers(normalizeMilestoneTiers(season?.milestone_tiers));
     setPlacementInput('');
     setSessionId(null);
     setSessionCode(null);
+    revision.current = null;
+    setFinalizedAt(null);
+    setArchivedAt(null);
     setShowNewSessionConfirm(false);
     router.push('/app/in-game-tracker');
   };
@@ -955,6 +895,82 @@ function InGameTrackerContent() {
     }
   };
 
+  // Reopen an ended session so the host can correct it and end it again
+  const reopenSession = async () => {
+    if (!sessionId) return;
+    setShowReopenConfirm(false);
+
+    try {
+      setReopening(true);
+      const res = await fetch('/api/reopen-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId,
+          writeKey: isLocalStorageAvailable()
+            ? localStorage.getItem(`apex:session:${sessionId}:writeKey`)
+            : null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to reopen session');
+
+      setFinalizedAt(null);
+      showNotificationModal(
+        'Session Reopened',
+        'Make your corrections, then end the session again to replace the saved stats.',
+        'success'
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to reopen';
+      showNotificationModal('Error', message, 'error');
+    } finally {
+      setReopening(false);
+    }
+  };
+
+  // Post an ended session's summary to Discord again
+  const resendToDiscord = async () => {
+    if (!sessionId) return;
+
+    try {
+      setResending(true);
+      const res = await fetch('/api/resend-discord', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId,
+          writeKey: isLocalStorageAvailable()
+            ? localStorage.getItem(`apex:session:${sessionId}:writeKey`)
+            : null,
+          destinationIds: destinations.length > 0 ? selectedDestinationIds : undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to post to Discord');
+
+      const posts: { label: string; status: string }[] = data.posts ?? [];
+      const lines = posts.map(({ label, status }) =>
+        status === 'sent'
+          ? `${label}: posted ✅`
+          : status === 'pending'
+            ? `${label}: Discord is busy; will retry`
+            : `${label}: failed`
+      );
+      const allSent = posts.every((p) => p.status === 'sent');
+      showNotificationModal(
+        allSent ? 'Posted to Discord' : 'Queued for Discord',
+        lines.join('\n'),
+        allSent ? 'success' : 'info'
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to post to Discord';
+      showNotificationModal('Error', message, 'error');
+    } finally {
+      setResending(false);
+    }
+  };
+
   // Save session to DB without posting to Discord
   const saveSessionOnly = async () => {
     if (!season) {
@@ -976,6 +992,9 @@ function InGameTrackerContent() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           sessionId,
+          writeKey: isLocalStorageAvailable()
+            ? localStorage.getItem(`apex:session:${sessionId}:writeKey`)
+            : null,
           postToDiscord: false,
         }),
       });
@@ -987,11 +1006,15 @@ function InGameTrackerContent() {
       }
 
       setShowEndSession(false);
+      setFinalizedAt(data.finalizedAt);
+      setArchivedAt(null);
 
       const messages = [
-        'Session saved to database ✅',
+        data.alreadyFinalized
+          ? 'Session was already ended ✅'
+          : 'Session saved to database ✅',
         '',
-        `Stats saved for ${data.statsInserted} player(s)`,
+        `Stats ${data.amended ? 'replaced' : 'saved'} for ${data.statsInserted} player(s)`,
       ];
 
       if (data.errors && data.errors.length > 0) {
@@ -1038,7 +1061,11 @@ function InGameTrackerContent() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           sessionId,
+          writeKey: isLocalStorageAvailable()
+            ? localStorage.getItem(`apex:session:${sessionId}:writeKey`)
+            : null,
           postToDiscord: true,
+          destinationIds: destinations.length > 0 ? selectedDestinationIds : undefined,
         }),
       });
 
@@ -1049,11 +1076,17 @@ function InGameTrackerContent() {
       }
 
       setShowEndSession(false);
+      setFinalizedAt(data.finalizedAt);
+      setArchivedAt(null);
 
       const messages = [
-        data.discordPosted ? 'Posted to Discord ✅' : 'Discord post failed ⚠️',
+        data.alreadyFinalized
+          ? 'Session was already ended ✅'
+          : data.discordPosted
+            ? 'Posted to Discord ✅'
+            : 'Discord post failed ⚠️',
         '',
-        `Stats saved for ${data.statsInserted} player(s)`,
+        `Stats ${data.amended ? 'replaced' : 'saved'} for ${data.statsInserted} player(s)`,
       ];
 
       if (data.errors && data.errors.length > 0) {
@@ -1079,23 +1112,11 @@ function InGameTrackerContent() {
     }
   };
 
-  const avgPlacement = sessionGames > 0 ? totalPlacement / sessionGames : 0;
-  const { groupAvgDamage } = useMemo(() => {
-    const withGames = players.filter((p) => p.games > 0);
-    if (withGames.length === 0) return { groupAvgDamage: 0 };
-    return {
-      groupAvgDamage:
-        withGames.reduce((acc, p) => acc + p.totalDamage / p.games, 0) /
-        withGames.length,
-    };
-  }, [players]);
+  const avgPlacement = perGame(totalPlacement, sessionGames);
+  const squadStats = useMemo(() => deriveStats(sumTotals(players)), [players]);
 
   const derived = useMemo(
-    () =>
-      players.map((p) => ({
-        odlId: p.odlId,
-        avgDamage: p.games > 0 ? p.totalDamage / p.games : 0,
-      })),
+    () => players.map((p) => ({ odlId: p.odlId, ...deriveStats(p) })),
     [players]
   );
 
@@ -1121,6 +1142,28 @@ function InGameTrackerContent() {
     'inline-flex items-center justify-center rounded-xl border border-green-600 bg-green-600 px-4 py-2 text-xs sm:text-sm font-medium text-white shadow-sm hover:bg-green-700 hover:border-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer';
   const inputClass = 'input';
 
+  // Which Discord channels get the post; only worth asking with more than one
+  const destinationPicker = destinations.length > 1 && (
+    <div className="flex flex-wrap gap-4">
+      {destinations.map((d) => (
+        <label key={d.id} className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={selectedDestinationIds.includes(d.id)}
+            onChange={(e) =>
+              setSelectedDestinationIds((ids) =>
+                e.target.checked ? [...ids, d.id] : ids.filter((id) => id !== d.id)
+              )
+            }
+            className="w-4 h-4 rounded border-2 accent-accent cursor-pointer"
+          />
+          <span className="text-sm text-primary font-medium">{d.label}</span>
+        </label>
+      ))}
+    </div>
+  );
+  const noDestinationSelected = destinations.length > 0 && selectedDestinationIds.length === 0;
+
   if (loading)
     return (
       <main className="min-h-screen bg-primary text-primary px-4 py-10 grid place-items-center">
@@ -1169,6 +1212,16 @@ function InGameTrackerContent() {
         variant="danger"
       />
 
+      <ConfirmModal
+        isOpen={showReopenConfirm}
+        title="Reopen this session?"
+        message="You can edit games and RP again. Ending the session afterwards replaces the stats saved to the season."
+        confirmText="Reopen"
+        cancelText="Cancel"
+        onConfirm={reopenSession}
+        onCancel={() => setShowReopenConfirm(false)}
+      />
+
       {/* End Session Modal */}
       {showEndSession && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
@@ -1203,11 +1256,18 @@ function InGameTrackerContent() {
                 saved either way.
               </p>
 
+              {destinationPicker && (
+                <div className="mb-4">
+                  <div className="text-xs text-tertiary uppercase tracking-wider mb-2">Post to</div>
+                  {destinationPicker}
+                </div>
+              )}
+
               <div className="space-y-3">
                 {/* Post to Discord Option */}
                 <button
                   onClick={postToDiscord}
-                  disabled={posting || saving}
+                  disabled={posting || saving || noDestinationSelected}
                   className="w-full flex items-center gap-4 p-4 rounded-xl bg-[#5865F2]/10 border border-[#5865F2]/30 hover:bg-[#5865F2]/20 hover:border-[#5865F2]/50 transition-all group disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
                 >
                   <div className="w-12 h-12 rounded-xl bg-[#5865F2] flex items-center justify-center flex-shrink-0">
@@ -1400,7 +1460,21 @@ function InGameTrackerContent() {
               </span>
             </h1>
             <p className="mt-2 text-xs sm:text-sm text-secondary">
-              {isHost ? (
+              {finalizedAt ? (
+                <>
+                  This session ended{' '}
+                  {new Date(finalizedAt).toLocaleString()}. Stats are{' '}
+                  <span className="font-semibold text-primary">read-only</span>
+                  .
+                </>
+              ) : archivedAt ? (
+                <>
+                  This session was archived after being idle.{' '}
+                  {isHost
+                    ? 'End it to save the stats, or discard it from the dashboard.'
+                    : 'Only the host can end it now.'}
+                </>
+              ) : isHost ? (
                 <>
                   Enter stats and hit{' '}
                   <span className="font-semibold text-primary">Add Game</span>.
@@ -1452,7 +1526,7 @@ function InGameTrackerContent() {
               <>
                 <button
                   onClick={() => setShowAddPlayer(true)}
-                  disabled={players.length >= MAX_PLAYERS}
+                  disabled={!canHostEdit || players.length >= MAX_PLAYERS}
                   className={secondaryButton}
                 >
                   + Add Player
@@ -1613,7 +1687,7 @@ function InGameTrackerContent() {
               Avg Placement
             </div>
             <div className="text-xl font-semibold text-primary">
-              {avgPlacement.toFixed(1)}
+              {formatAvgPlacement(avgPlacement)}
             </div>
           </div>
           <div className="rounded-2xl border border-themed bg-gradient-to-br from-secondary via-card to-accent/20 p-4 shadow-sm">
@@ -1655,7 +1729,7 @@ function InGameTrackerContent() {
                       updateField(p.odlId, 'damageInput', e.target.value)
                     }
                     placeholder="Damage (e.g. 1200)"
-                    disabled={!isHost}
+                    disabled={!canHostEdit}
                     className={inputClass}
                   />
                 </div>
@@ -1669,12 +1743,12 @@ function InGameTrackerContent() {
                       updateField(p.odlId, 'killsInput', e.target.value)
                     }
                     placeholder="Kills (e.g. 3)"
-                    disabled={!isHost}
+                    disabled={!canHostEdit}
                     className={inputClass}
                   />
                 </div>
                 <div className="sm:col-span-2 flex justify-end">
-                  {isHost && players.length > 1 && (
+                  {canHostEdit && players.length > 1 && (
                     <button
                       onClick={() => removePlayer(p.odlId)}
                       className="w-full rounded-xl border border-themed bg-secondary px-2 py-2 text-xs text-slate-300 hover:border-accent hover:bg-card-hover hover:text-white shadow-sm cursor-pointer"
@@ -1696,20 +1770,20 @@ function InGameTrackerContent() {
                 value={placementInput}
                 onChange={(e) => setPlacementInput(e.target.value)}
                 placeholder="1-20"
-                disabled={!isHost}
+                disabled={!canHostEdit}
                 className="w-20 rounded-xl border border-themed bg-primary px-3 py-2 text-sm text-primary outline-none placeholder:text-tertiary focus:border-accent focus:ring-1 focus:ring-accent disabled:opacity-50"
               />
             </div>
             <button
               onClick={addGameAll}
-              disabled={!isHost}
+              disabled={!canHostEdit}
               className={primaryButton}
             >
               Add Game ▶
             </button>
             <button
               onClick={undoGameAll}
-              disabled={!isHost || gameHistory.length === 0}
+              disabled={!canHostEdit || gameHistory.length === 0}
               className={secondaryButton}
             >
               ◀ Undo Last Game
@@ -1727,12 +1801,13 @@ function InGameTrackerContent() {
           </h2>
           <p className="text-[11px] text-tertiary mb-3">
             Each player tracks their own RP. Enter RP change per match (can be
-            negative). Updates sync in realtime.
+            negative). After each game it&apos;s pre-filled from the season&apos;s
+            RP rules; change it if it&apos;s off. Updates sync in realtime.
           </p>
           <div className="grid gap-3">
             {players.map((p, idx) => {
               const isMe = p.odlierId === profile.id;
-              const canEdit = isHost || isMe;
+              const canEdit = !isReadOnly && (isHost || isMe);
               return (
                 <div
                   key={p.odlId}
@@ -1809,12 +1884,14 @@ function InGameTrackerContent() {
                 <th className="px-4 py-3 text-[11px] uppercase tracking-[0.16em]">
                   Total Kills
                 </th>
-                <th className="px-4 py-3 text-[11px] uppercase tracking-[0.16em]">
-                  1k Games
-                </th>
-                <th className="px-4 py-3 text-[11px] uppercase tracking-[0.16em]">
-                  2k Games
-                </th>
+                {milestoneTiers.map((tier) => (
+                  <th
+                    key={tier}
+                    className="px-4 py-3 text-[11px] uppercase tracking-[0.16em]"
+                  >
+                    {formatMilestone(tier)}+ Games
+                  </th>
+                ))}
                 <th className="px-4 py-3 text-[11px] uppercase tracking-[0.16em]">
                   Avg Damage
                 </th>
@@ -1840,10 +1917,13 @@ function InGameTrackerContent() {
                       {p.totalDamage.toLocaleString()}
                     </td>
                     <td className="px-4 py-3 text-primary">{p.totalKills}</td>
-                    <td className="px-4 py-3 text-primary">{p.oneKGames}</td>
-                    <td className="px-4 py-3 text-primary">{p.twoKGames}</td>
+                    {milestoneTiers.map((tier) => (
+                      <td key={tier} className="px-4 py-3 text-primary">
+                        {p.milestones[tier] ?? 0}
+                      </td>
+                    ))}
                     <td className="px-4 py-3 text-primary">
-                      {avgs.avgDamage.toFixed(0)}
+                      {formatAvgDamage(avgs.avgDamage)}
                     </td>
                     <td className="px-4 py-3 text-primary">{p.donuts}</td>
                     <td className="px-4 py-3 text-accent font-semibold">
@@ -1859,23 +1939,16 @@ function InGameTrackerContent() {
                 <td className="px-4 py-3 text-tertiary">—</td>
                 <td className="px-4 py-3 text-slate-300">Totals</td>
                 <td className="px-4 py-3">
-                  {players
-                    .reduce((acc, p) => acc + p.totalDamage, 0)
-                    .toLocaleString()}
-                </td>
-                <td className="px-4 py-3">
-                  {players.reduce((acc, p) => acc + p.totalKills, 0)}
-                </td>
-                <td className="px-4 py-3">
-                  {players.reduce((acc, p) => acc + p.oneKGames, 0)}
-                </td>
-                <td className="px-4 py-3">
-                  {players.reduce((acc, p) => acc + p.twoKGames, 0)}
-                </td>
-                <td className="px-4 py-3">{groupAvgDamage.toFixed(0)}</td>
-                <td className="px-4 py-3">
-                  {players.reduce((acc, p) => acc + p.donuts, 0)}
+                  {squadStats.totalDamage.toLocaleString()}
                 </td>
+                <td className="px-4 py-3">{squadStats.totalKills}</td>
+                {milestoneTiers.map((tier) => (
+                  <td key={tier} className="px-4 py-3">
+                    {squadStats.milestones[tier] ?? 0}
+                  </td>
+                ))}
+                <td className="px-4 py-3">{formatAvgDamage(squadStats.avgDamage)}</td>
+                <td className="px-4 py-3">{squadStats.donuts}</td>
                 <td className="px-4 py-3 text-accent">
                   {players.reduce((acc, p) => acc + p.totalRP, 0)}
                 </td>
@@ -1884,8 +1957,73 @@ function InGameTrackerContent() {
           </table>
         </div>
 
+        {gameHistory.length > 0 && (
+          <div className="mt-4 overflow-x-auto rounded-2xl border border-themed bg-card shadow-sm">
+            <div className="px-4 py-3 border-b border-themed flex items-center gap-2">
+              <span className="h-3 w-1 rounded-sm bg-accent" />
+              <span className="text-xs sm:text-sm font-semibold text-primary">
+                Game Log
+              </span>
+            </div>
+            <table className="w-full text-left text-xs sm:text-sm">
+              <thead className="bg-secondary text-slate-300 border-b border-themed">
+                <tr>
+                  <th className="px-4 py-3 w-[44px] text-[11px] uppercase tracking-[0.16em]">
+                    #
+                  </th>
+                  <th className="px-4 py-3 text-[11px] uppercase tracking-[0.16em]">
+                    Time
+                  </th>
+                  <th className="px-4 py-3 text-[11px] uppercase tracking-[0.16em]">
+                    Placement
+                  </th>
+                  {players.map((p) => (
+                    <th
+                      key={p.odlId}
+                      className="px-4 py-3 text-[11px] uppercase tracking-[0.16em]"
+                    >
+                      {p.name || '—'}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {gameHistory.map((game, idx) => (
+                  <tr
+                    key={game.id}
+                    className="border-t border-themed odd:bg-primary even:bg-card hover:bg-card-hover transition-colors"
+                  >
+                    <td className="px-4 py-3 text-tertiary">{idx + 1}</td>
+                    <td className="px-4 py-3 text-secondary">
+                      {new Date(game.playedAt).toLocaleTimeString([], {
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}
+                    </td>
+                    <td
+                      className={`px-4 py-3 ${game.placement === 1 ? 'text-amber-400 font-semibold' : 'text-primary'}`}
+                    >
+                      #{game.placement}
+                    </td>
+                    {players.map((p) => {
+                      const rec = game.entries.find((e) => e.odlId === p.odlId);
+                      return (
+                        <td key={p.odlId} className="px-4 py-3 text-primary">
+                          {rec
+                            ? `${rec.entry.damage.toLocaleString()} dmg • ${rec.entry.kills} k`
+                            : '—'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         <div className="mt-6 flex flex-wrap items-center gap-3">
-          {isHost && (
+          {isHost && !finalizedAt && (
             <button
               onClick={() => setShowEndSession(true)}
               className={successButton}
@@ -1893,6 +2031,25 @@ function InGameTrackerContent() {
               End Session
             </button>
           )}
+          {isHost && finalizedAt && (
+            <button
+              onClick={() => setShowReopenConfirm(true)}
+              disabled={reopening}
+              className={secondaryButton}
+            >
+              {reopening ? 'Reopening...' : 'Reopen Session'}
+            </button>
+          )}
+          {isHost && finalizedAt && (
+            <button
+              onClick={resendToDiscord}
+              disabled={resending || noDestinationSelected}
+              className={secondaryButton}
+            >
+              {resending ? 'Posting...' : 'Resend to Discord'}
+            </button>
+          )}
+          {isHost && finalizedAt && destinationPicker}
           <button
             onClick={() => router.push('/app/season-progression')}
             className={secondaryButton}
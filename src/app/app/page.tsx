@@ -13,41 +13,96 @@ import {
   CartesianGrid,
 } from 'recharts';
 import { supabase } from '@/lib/supabase/client';
-import { fetchMyProfile, type Profile } from '@/lib/auth';
-import { getActiveSeason, type Season } from '@/lib/seasons';
+import { fetchMyProfile, getAccessToken, type Profile } from '@/lib/auth';
+import { getActiveSeason, getSeasons, type Season } from '@/lib/seasons';
+import type { SessionDoc } from '@/lib/sessionDoc';
+import { SESSION_IDLE_MS } from '@/lib/sessionCodes';
+import { formatMilestone, normalizeMilestoneTiers } from '@/lib/milestones';
+import {
+  EMPTY_TOTALS,
+  computeConsistency,
+  deriveStats,
+  formatAvgDamage,
+  formatAvgKills,
+  sumTotals,
+  totalsFromRow,
+  type ConsistencyStats,
+  type DerivedStats,
+  type GameLogEntry,
+} from '@/lib/stats';
+import {
+  RECORD_KEYS,
+  RECORD_LABELS,
+  computeRecords,
+  formatRecordValue,
+  recordSessionFromRow,
+  recordsSetIn,
+  type PersonalRecord,
+  type PersonalRecords,
+} from '@/lib/records';
+import { RANK_COLORS, formatTier, nextTier, normalizeRankTiers, tierForRp } from '@/lib/ranks';
 import { useToast } from '@/components/ToastProvider';
+import UnfinishedSessionModal from '@/components/UnfinishedSessionModal';
+import SeasonPicker from '@/components/SeasonPicker';
 
-type PlayerStats = {
-  totalKills: number;
-  totalDamage: number;
+type PlayerStats = DerivedStats & {
   totalRP: number;
-  donuts: number;
-  oneKGames: number;
-  twoKGames: number;
-  totalGames: number;
-  avgDamage: number;
-  avgKills: number;
+  consistency: ConsistencyStats;
 };
 
+// Milestone metrics are keyed `m<tier>`, e.g. `m1000`
 type ChartDataPoint = {
   date: string;
-  rp: number;
-  kills: number;
-  damage: number;
-  donuts: number;
-  oneK: number;
-  twoK: number;
+  [metric: string]: number | string;
+};
+
+type UnfinishedSession = {
+  id: string;
+  updated_at: string;
+  writeKey: string;
 };
 
-const METRIC_CONFIG = {
+// Most recent idle session this user hosts on this device that was never ended
+async function fetchUnfinishedSession(userId: string): Promise<UnfinishedSession | null> {
+  const cutoff = new Date(Date.now() - SESSION_IDLE_MS).toISOString();
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('id, updated_at')
+    .eq('host_user_id', userId)
+    .is('finalized_at', null)
+    .lt('updated_at', cutoff)
+    .order('updated_at', { ascending: false })
+    .limit(5);
+
+  if (error) throw error;
+
+  for (const session of data ?? []) {
+    const writeKey = localStorage.getItem(`apex:session:${session.id}:writeKey`);
+    if (writeKey) return { ...session, writeKey };
+  }
+  return null;
+}
+
+const METRIC_CONFIG: Record<string, { label: string; color: string }> = {
   rp: { label: 'RP', color: '#E03A3E' },
   kills: { label: 'Kills', color: '#3B82F6' },
   damage: { label: 'Damage', color: '#10B981' },
   donuts: { label: 'Donuts', color: '#8B5CF6' },
-  oneK: { label: '1K Games', color: '#F59E0B' },
-  twoK: { label: '2K Games', color: '#EC4899' },
 };
 
+const MILESTONE_COLORS = ['#F59E0B', '#EC4899', '#14B8A6', '#F97316', '#A3E635'];
+
+function metricConfigFor(tiers: number[]) {
+  const config = { ...METRIC_CONFIG };
+  tiers.forEach((tier, i) => {
+    config[`m${tier}`] = {
+      label: `${formatMilestone(tier)} Games`,
+      color: MILESTONE_COLORS[i % MILESTONE_COLORS.length],
+    };
+  });
+  return config;
+}
+
 export default function DashboardPage() {
   const router = useRouter();
   const { success, error: showError } = useToast();
@@ -55,6 +110,9 @@ export default function DashboardPage() {
   const [loading, setLoading] = useState(true);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [season, setSeason] = useState<Season | null>(null);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  // Season shown on the stats tab; sessions always go to the active season
+  const [statsSeason, setStatsSeason] = useState<Season | null>(null);
   
   const [activeTab, setActiveTab] = useState<'stats' | 'session'>('stats');
   const [sessionView, setSessionView] = useState<'choice' | 'join'>('choice');
@@ -62,25 +120,43 @@ export default function DashboardPage() {
   const [joiningSession, setJoiningSession] = useState(false);
   const [creatingSession, setCreatingSession] = useState(false);
   const [joinError, setJoinError] = useState<string | null>(null);
+  const [unfinishedSession, setUnfinishedSession] = useState<UnfinishedSession | null>(null);
 
   // Stats
   const [stats, setStats] = useState<PlayerStats | null>(null);
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
   const [visibleMetrics, setVisibleMetrics] = useState<string[]>(['rp']);
+  const [records, setRecords] = useState<PersonalRecords>({});
+  const [latestRecords, setLatestRecords] = useState<PersonalRecord[]>([]);
+  const [startingRp, setStartingRp] = useState(0);
 
   const loadData = useCallback(async () => {
     try {
-      const [profileData, seasonData] = await Promise.all([
+      const [profileData, seasonData, allSeasons] = await Promise.all([
         fetchMyProfile(),
         getActiveSeason(),
+        getSeasons(),
       ]);
 
+      // Without an active season, show the latest one
+      const shownSeason = seasonData ?? allSeasons[0] ?? null;
       setProfile(profileData);
       setSeason(seasonData);
+      setSeasons(allSeasons);
+      setStatsSeason(shownSeason);
 
-      if (profileData && seasonData) {
+      if (profileData && shownSeason) {
         // Fetch player stats for this season
-        await loadPlayerStats(profileData.id, seasonData.id);
+        await loadPlayerStats(profileData.id, shownSeason);
+      }
+
+      if (profileData) {
+        setUnfinishedSession(
+          await fetchUnfinishedSession(profileData.id).catch((err) => {
+            console.error('Failed to check for unfinished sessions:', err);
+            return null;
+          })
+        );
       }
     } catch (err) {
       console.error('Failed to load data:', err);
@@ -89,14 +165,15 @@ export default function DashboardPage() {
     }
   }, []);
 
-  const loadPlayerStats = async (userId: string, seasonId: string) => {
+  const loadPlayerStats = async (userId: string, season: Season) => {
+    const tiers = normalizeMilestoneTiers(season.milestone_tiers);
     try {
       // Get all session stats for this user in this season (including RP)
       const { data: statsData, error: statsError } = await supabase
         .from('season_player_stats')
-        .select('games, total_damage, total_kills, one_k_games, two_k_games, donuts, total_rp, created_at')
+        .select('games, total_damage, total_kills, milestone_games, donuts, total_rp, game_log, created_at')
         .eq('user_id', userId)
-        .eq('season_id', seasonId)
+        .eq('season_id', season.id)
         .order('created_at', { ascending: true });
 
       if (statsError) throw statsError;
@@ -104,24 +181,11 @@ export default function DashboardPage() {
       const sessions = statsData ?? [];
       
       // Aggregate stats across all sessions
-      const totalKills = sessions.reduce((sum, s) => sum + s.total_kills, 0);
-      const totalDamage = sessions.reduce((sum, s) => sum + s.total_damage, 0);
-      const donuts = sessions.reduce((sum, s) => sum + s.donuts, 0);
-      const oneKGames = sessions.reduce((sum, s) => sum + s.one_k_games, 0);
-      const twoKGames = sessions.reduce((sum, s) => sum + s.two_k_games, 0);
-      const totalGames = sessions.reduce((sum, s) => sum + s.games, 0);
       const totalRP = sessions.reduce((sum, s) => sum + (s.total_rp || 0), 0);
-
       setStats({
-        totalKills,
-        totalDamage,
+        ...deriveStats(sumTotals(sessions.map(totalsFromRow))),
         totalRP,
-        donuts,
-        oneKGames,
-        twoKGames,
-        totalGames,
-        avgDamage: totalGames > 0 ? Math.round(totalDamage / totalGames) : 0,
-        avgKills: totalGames > 0 ? Math.round((totalKills / totalGames) * 10) / 10 : 0,
+        consistency: computeConsistency(sessions.flatMap((s) => (s.game_log ?? []) as GameLogEntry[])),
       });
 
       // Build chart data - aggregate by date
@@ -129,40 +193,25 @@ export default function DashboardPage() {
       
       // Build cumulative stats from sessions (including RP)
       let cumulativeRP = 0;
-      let cumulativeKills = 0;
-      let cumulativeDamage = 0;
-      let cumulativeDonuts = 0;
-      let cumulative1K = 0;
-      let cumulative2K = 0;
+      let cumulative = EMPTY_TOTALS;
 
       for (const session of sessions) {
         const date = formatDate(session.created_at.split('T')[0]);
         cumulativeRP += session.total_rp || 0;
-        cumulativeKills += session.total_kills;
-        cumulativeDamage += session.total_damage;
-        cumulativeDonuts += session.donuts;
-        cumulative1K += session.one_k_games;
-        cumulative2K += session.two_k_games;
-
-        if (!dateMap.has(date)) {
-          dateMap.set(date, {
-            date,
-            rp: cumulativeRP,
-            kills: cumulativeKills,
-            damage: cumulativeDamage,
-            donuts: cumulativeDonuts,
-            oneK: cumulative1K,
-            twoK: cumulative2K,
-          });
-        } else {
-          const point = dateMap.get(date)!;
-          point.rp = cumulativeRP;
-          point.kills = cumulativeKills;
-          point.damage = cumulativeDamage;
-          point.donuts = cumulativeDonuts;
-          point.oneK = cumulative1K;
-          point.twoK = cumulative2K;
+        cumulative = sumTotals([cumulative, totalsFromRow(session)]);
+
+        // Later sessions on the same date overwrite the earlier running totals
+        const point: ChartDataPoint = {
+          date,
+          rp: cumulativeRP,
+          kills: cumulative.totalKills,
+          damage: cumulative.totalDamage,
+          donuts: cumulative.donuts,
+        };
+        for (const tier of tiers) {
+          point[`m${tier}`] = cumulative.milestones[tier] ?? 0;
         }
+        dateMap.set(date, point);
       }
 
       // Sort by date and set
@@ -171,6 +220,35 @@ export default function DashboardPage() {
       );
       setChartData(sortedData);
 
+      // Ranked RP at the start of the season, for the rank shown with Total RP
+      const { data: seasonPlayer } = await supabase
+        .from('season_players')
+        .select('starting_rp')
+        .eq('season_id', season.id)
+        .eq('user_id', userId)
+        .maybeSingle();
+      setStartingRp(seasonPlayer?.starting_rp ?? 0);
+
+      // Personal records span every season
+      const { data: recordRows, error: recordsError } = await supabase
+        .from('season_player_stats')
+        .select('session_id, created_at, game_log')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (recordsError) throw recordsError;
+
+      const recordSessions = (recordRows ?? [])
+        .map(recordSessionFromRow)
+        .filter((s) => s.games.length > 0);
+      const allRecords = computeRecords(recordSessions);
+      setRecords(allRecords);
+      // Call out records from the latest session, unless it's the only one
+      const latest = recordSessions[recordSessions.length - 1];
+      setLatestRecords(
+        recordSessions.length > 1 ? recordsSetIn(allRecords, [latest.sessionKey]) : []
+      );
+
     } catch (err) {
       console.error('Failed to load player stats:', err);
     }
@@ -185,6 +263,11 @@ export default function DashboardPage() {
     return `${month}/${day}`;
   };
 
+  const handleSeasonChange = async (next: Season) => {
+    setStatsSeason(next);
+    if (profile) await loadPlayerStats(profile.id, next);
+  };
+
   const toggleMetric = (metric: string) => {
     setVisibleMetrics(prev =>
       prev.includes(metric)
@@ -199,7 +282,8 @@ export default function DashboardPage() {
     setCreatingSession(true);
     try {
       // Create initial doc with host as first player
-      const initialDoc = {
+      const initialDoc: SessionDoc = {
+        milestoneTiers: normalizeMilestoneTiers(season.milestone_tiers),
         players: [{
           odlId: crypto.randomUUID(),
           odlierId: profile.id,
@@ -207,8 +291,7 @@ export default function DashboardPage() {
           games: 0,
           totalDamage: 0,
           totalKills: 0,
-          oneKGames: 0,
-          twoKGames: 0,
+          milestones: {},
           donuts: 0,
           totalRP: 0,
         }],
@@ -216,6 +299,7 @@ export default function DashboardPage() {
         wins: 0,
         totalPlacement: 0,
         placements: [],
+        games: [],
       };
 
       const res = await fetch('/api/post-session', {
@@ -244,6 +328,54 @@ export default function DashboardPage() {
     }
   };
 
+  const handleFinalizeUnfinished = async () => {
+    if (!unfinishedSession) return;
+    try {
+      const res = await fetch('/api/end-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId: unfinishedSession.id,
+          writeKey: unfinishedSession.writeKey,
+          postToDiscord: false,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to finalize session');
+
+      setUnfinishedSession(null);
+      success('Session saved to the season!');
+      if (profile && season) {
+        setStatsSeason(season);
+        await loadPlayerStats(profile.id, season);
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to finalize session');
+    }
+  };
+
+  const handleDiscardUnfinished = async () => {
+    if (!unfinishedSession) return;
+    try {
+      const res = await fetch('/api/discard-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId: unfinishedSession.id,
+          writeKey: unfinishedSession.writeKey,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to discard session');
+
+      localStorage.removeItem(`apex:session:${unfinishedSession.id}:writeKey`);
+      setUnfinishedSession(null);
+      success('Session discarded');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to discard session');
+    }
+  };
+
   const handleJoinSession = async () => {
     if (!profile || joinCode.length !== 6) return;
 
@@ -252,45 +384,63 @@ export default function DashboardPage() {
 
     try {
       // Lookup session by code
-      const res = await fetch(`/api/post-session?code=${joinCode}`);
+      const accessToken = await getAccessToken();
+      const res = await fetch(`/api/post-session?code=${joinCode}`, {
+        headers: { Authorization: `Bearer ${accessToken ?? ''}` },
+      });
       const json = await res.json();
 
       if (!res.ok || !json.session) {
-        setJoinError('Invalid or expired session code.');
+        setJoinError(
+          res.status === 429 ? json.error : 'Invalid or expired session code.'
+        );
         setJoiningSession(false);
         return;
       }
 
       const session = json.session;
 
-      // Add this player to the session doc if not already in it
-      const doc = session.doc;
-      const alreadyInSession = doc.players.some((p: { odlierId: string }) => p.odlierId === profile.id);
-      
+      // Add this player to the session if not already in it
+      const doc: SessionDoc = session.doc;
+      const alreadyInSession = doc.players.some((p) => p.odlierId === profile.id);
+
       if (!alreadyInSession) {
-        doc.players.push({
-          odlId: crypto.randomUUID(),
-          odlierId: profile.id,
-          name: profile.display_name,
-          games: 0,
-          totalDamage: 0,
-          totalKills: 0,
-          oneKGames: 0,
-          twoKGames: 0,
-          donuts: 0,
-          totalRP: 0,
-        });
-
-        // Update the session with new player
-        await fetch('/api/post-session', {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            sessionId: session.id,
-            doc,
-            playerIdUpdating: profile.id,
-          }),
-        });
+        // Retry against the latest revision if the session changed since the lookup
+        let baseRevision: number = session.revision;
+        for (let attempt = 0; ; attempt++) {
+          const putRes = await fetch('/api/post-session', {
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${accessToken ?? ''}`,
+            },
+            body: JSON.stringify({
+              sessionId: session.id,
+              baseRevision,
+              ops: [
+                {
+                  type: 'addPlayer',
+                  player: {
+                    odlId: crypto.randomUUID(),
+                    odlierId: profile.id,
+                    name: profile.display_name,
+                  },
+                },
+              ],
+              playerIdUpdating: profile.id,
+            }),
+          });
+          if (putRes.ok) break;
+
+          const putJson = await putRes.json().catch(() => ({}));
+          if (putRes.status === 409 && putJson.doc && attempt < 2) {
+            if ((putJson.doc as SessionDoc).players.some((p) => p.odlierId === profile.id)) break;
+            baseRevision = putJson.revision;
+            continue;
+          }
+          setJoinError(putJson.error || 'Failed to join session. Please try again.');
+          return;
+        }
       }
 
       success('Joined session!');
@@ -303,6 +453,12 @@ export default function DashboardPage() {
     }
   };
 
+  const milestoneTiers = normalizeMilestoneTiers(statsSeason?.milestone_tiers);
+  const metricConfig = metricConfigFor(milestoneTiers);
+  const rankTiers = normalizeRankTiers(statsSeason?.rank_tiers);
+  const rankedRp = startingRp + (stats?.totalRP ?? 0);
+  const rank = { tier: tierForRp(rankedRp, rankTiers), next: nextTier(rankedRp, rankTiers) };
+
   if (loading) {
     return (
       <main className="min-h-[calc(100vh-4rem)] bg-primary flex items-center justify-center">
@@ -328,6 +484,14 @@ export default function DashboardPage() {
 
   return (
     <main className="min-h-[calc(100vh-4rem)] bg-primary py-8">
+      <UnfinishedSessionModal
+        isOpen={unfinishedSession !== null}
+        lastActive={unfinishedSession?.updated_at ?? ''}
+        onClose={() => setUnfinishedSession(null)}
+        onFinalize={handleFinalizeUnfinished}
+        onDiscard={handleDiscardUnfinished}
+      />
+
       <div className="page-container page-transition">
         {/* Header */}
         <div className="flex items-center gap-4 mb-8">
@@ -339,7 +503,8 @@ export default function DashboardPage() {
               Welcome back, <span className="text-accent">{profile.display_name}</span>
             </h1>
             <p className="text-secondary text-sm">
-              {season ? `Season ${season.season_number}` : 'No active season'} • Here&apos;s your performance overview
+              {statsSeason ? `Season ${statsSeason.season_number}` : 'No active season'}
+              {statsSeason && !statsSeason.is_active && ' (past season)'} • Here&apos;s your performance overview
             </p>
           </div>
         </div>
@@ -366,16 +531,21 @@ export default function DashboardPage() {
           >
             🎮 Play Session
           </button>
+          {activeTab === 'stats' && statsSeason && (
+            <div className="ml-auto">
+              <SeasonPicker seasons={seasons} value={statsSeason.id} onChange={handleSeasonChange} />
+            </div>
+          )}
         </div>
 
         {/* My Stats Tab */}
         {activeTab === 'stats' && (
           <div className="page-transition">
-            {!season ? (
+            {!statsSeason ? (
               <div className="card p-8 text-center">
                 <p className="text-secondary">No active season. Stats will appear once a season is set.</p>
               </div>
-            ) : !stats || stats.totalGames === 0 ? (
+            ) : !stats || stats.games === 0 ? (
               <div className="card p-8 text-center">
                 <div className="text-4xl mb-4">📊</div>
                 <h3 className="text-lg font-semibold text-primary mb-2">No stats yet</h3>
@@ -383,6 +553,20 @@ export default function DashboardPage() {
               </div>
             ) : (
               <>
+                {/* New records from the latest session */}
+                {latestRecords.length > 0 && (
+                  <div className="mb-6 rounded-xl border border-amber-500/30 bg-amber-500/10 px-4 py-3">
+                    <div className="text-sm font-semibold text-amber-500 mb-1">🏆 New personal record{latestRecords.length > 1 ? 's' : ''} last session</div>
+                    <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-primary">
+                      {latestRecords.map((r) => (
+                        <span key={r.key}>
+                          {RECORD_LABELS[r.key]}: <span className="font-bold">{formatRecordValue(r)}</span>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Main Stats */}
                 <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
                   <div className="stat-card">
@@ -391,7 +575,7 @@ export default function DashboardPage() {
                       <span className="text-xs text-tertiary uppercase tracking-wider">Total Kills</span>
                     </div>
                     <div className="text-2xl font-bold text-primary">{stats.totalKills.toLocaleString()}</div>
-                    <div className="text-xs text-tertiary mt-1">{stats.avgKills} per game</div>
+                    <div className="text-xs text-tertiary mt-1">{formatAvgKills(stats.avgKills)} per game</div>
                   </div>
 
                   <div className="stat-card">
@@ -400,7 +584,7 @@ export default function DashboardPage() {
                       <span className="text-xs text-tertiary uppercase tracking-wider">Total Damage</span>
                     </div>
                     <div className="text-2xl font-bold text-primary">{stats.totalDamage.toLocaleString()}</div>
-                    <div className="text-xs text-tertiary mt-1">{stats.avgDamage.toLocaleString()} avg</div>
+                    <div className="text-xs text-tertiary mt-1">{formatAvgDamage(stats.avgDamage)} avg</div>
                   </div>
 
                   <div className="stat-card" style={{ borderColor: 'rgba(16, 185, 129, 0.3)', background: 'linear-gradient(135deg, rgba(16, 185, 129, 0.05) 0%, transparent 100%)' }}>
@@ -411,7 +595,12 @@ export default function DashboardPage() {
                     <div className={`text-2xl font-bold ${stats.totalRP >= 0 ? 'text-success' : 'text-error'}`}>
                       {stats.totalRP > 0 ? '+' : ''}{stats.totalRP.toLocaleString()}
                     </div>
-                    <div className="text-xs text-tertiary mt-1">{stats.totalGames} games</div>
+                    <div className="text-xs text-tertiary mt-1">
+                      <span style={{ color: RANK_COLORS[rank.tier.rank] }}>{formatTier(rank.tier)}</span>
+                      {rank.next
+                        ? ` · ${rank.next.rpToGo.toLocaleString()} RP to ${formatTier(rank.next.tier)}`
+                        : ` · ${stats.games} games`}
+                    </div>
                   </div>
 
                   <div className="stat-card" style={{ borderColor: 'rgba(139, 92, 246, 0.3)', background: 'linear-gradient(135deg, rgba(139, 92, 246, 0.05) 0%, transparent 100%)' }}>
@@ -420,30 +609,86 @@ export default function DashboardPage() {
                       <span className="text-xs text-tertiary uppercase tracking-wider">Donuts</span>
                     </div>
                     <div className="text-2xl font-bold text-purple-400">{stats.donuts}</div>
-                    <div className="text-xs text-tertiary mt-1">Zero kill games</div>
+                    <div className="text-xs text-tertiary mt-1">No damage, no kills</div>
                   </div>
                 </div>
 
+                {/* Consistency */}
+                {stats.consistency.games > 0 && (
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                    <div className="card p-4">
+                      <div className="text-xs text-tertiary uppercase tracking-wider mb-1">Consistency</div>
+                      <div className="text-xl font-bold text-primary">{stats.consistency.consistencyScore}<span className="text-sm text-tertiary"> / 100</span></div>
+                      <div className="text-xs text-tertiary mt-1">{stats.consistency.games} logged games</div>
+                    </div>
+                    <div className="card p-4">
+                      <div className="text-xs text-tertiary uppercase tracking-wider mb-1">Median Damage</div>
+                      <div className="text-xl font-bold text-primary">{formatAvgDamage(stats.consistency.medianDamage)}</div>
+                      <div className="text-xs text-tertiary mt-1">vs {formatAvgDamage(stats.consistency.meanDamage)} mean</div>
+                    </div>
+                    <div className="card p-4">
+                      <div className="text-xs text-tertiary uppercase tracking-wider mb-1">Std Deviation</div>
+                      <div className="text-xl font-bold text-primary">±{formatAvgDamage(stats.consistency.damageStdDev)}</div>
+                      <div className="text-xs text-tertiary mt-1">damage per game</div>
+                    </div>
+                    <div className="card p-4">
+                      <div className="text-xs text-tertiary uppercase tracking-wider mb-1">Typical Game</div>
+                      <div className="text-xl font-bold text-primary">
+                        {formatAvgDamage(stats.consistency.p25Damage)}–{formatAvgDamage(stats.consistency.p75Damage)}
+                      </div>
+                      <div className="text-xs text-tertiary mt-1">
+                        middle 50% · 90% under {formatAvgDamage(stats.consistency.p90Damage)}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Secondary Stats */}
                 <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-                  <div className="card p-4">
-                    <div className="text-xs text-tertiary uppercase tracking-wider mb-1">1K+ Games</div>
-                    <div className="text-xl font-bold text-warning">{stats.oneKGames}</div>
-                  </div>
-                  <div className="card p-4">
-                    <div className="text-xs text-tertiary uppercase tracking-wider mb-1">2K+ Games</div>
-                    <div className="text-xl font-bold text-warning">{stats.twoKGames}</div>
-                  </div>
+                  {milestoneTiers.map((tier) => (
+                    <div key={tier} className="card p-4">
+                      <div className="text-xs text-tertiary uppercase tracking-wider mb-1">
+                        {formatMilestone(tier)}+ Games
+                      </div>
+                      <div className="text-xl font-bold text-warning">{stats.milestones[tier] ?? 0}</div>
+                    </div>
+                  ))}
                   <div className="card p-4">
                     <div className="text-xs text-tertiary uppercase tracking-wider mb-1">Games Played</div>
-                    <div className="text-xl font-bold text-primary">{stats.totalGames}</div>
+                    <div className="text-xl font-bold text-primary">{stats.games}</div>
                   </div>
                   <div className="card p-4">
                     <div className="text-xs text-tertiary uppercase tracking-wider mb-1">Avg Damage</div>
-                    <div className="text-xl font-bold text-primary">{stats.avgDamage.toLocaleString()}</div>
+                    <div className="text-xl font-bold text-primary">{formatAvgDamage(stats.avgDamage)}</div>
                   </div>
                 </div>
 
+                {/* Personal Records */}
+                {Object.keys(records).length > 0 && (
+                  <div className="card p-6 mb-6">
+                    <div className="section-header mb-4">
+                      <div className="indicator" />
+                      <div className="title">Personal Records</div>
+                    </div>
+                    <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+                      {RECORD_KEYS.map((key) => {
+                        const record = records[key];
+                        const isNew = latestRecords.some((r) => r.key === key);
+                        return (
+                          <div key={key} className={`p-3 rounded-xl border ${isNew ? 'border-amber-500/50' : 'border-themed'}`}>
+                            <div className="text-xs text-tertiary uppercase tracking-wider mb-1">{RECORD_LABELS[key]}</div>
+                            <div className="text-xl font-bold text-primary">
+                              {record ? formatRecordValue(record) : '—'}
+                              {isNew && <span className="ml-2 text-xs font-semibold text-amber-500">NEW</span>}
+                            </div>
+                            {record && <div className="text-xs text-tertiary mt-1">{formatDate(record.date)}</div>}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 {/* Performance Graph */}
                 {chartData.length > 0 && (
                   <div className="card p-6">
@@ -456,7 +701,7 @@ export default function DashboardPage() {
 
                     {/* Metric Toggles */}
                     <div className="flex flex-wrap gap-2 mb-6 p-3 bg-secondary rounded-xl">
-                      {Object.entries(METRIC_CONFIG).map(([key, config]) => (
+                      {Object.entries(metricConfig).map(([key, config]) => (
                         <label
                           key={key}
                           className={`flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-all ${
@@ -517,8 +762,8 @@ export default function DashboardPage() {
                               key={metric}
                               type="monotone"
                               dataKey={metric}
-                              name={METRIC_CONFIG[metric as keyof typeof METRIC_CONFIG].label}
-                              stroke={METRIC_CONFIG[metric as keyof typeof METRIC_CONFIG].color}
+                              name={metricConfig[metric].label}
+                              stroke={metricConfig[metric].color}
                               strokeWidth={2}
                               dot={{ r: 4 }}
                               activeDot={{ r: 6 }}
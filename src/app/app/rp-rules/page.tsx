@@ -0,0 +1,237 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { getActiveSeason, type Season } from '@/lib/seasons';
+import { normalizeRankTiers } from '@/lib/ranks';
+import {
+  getSeasonRulesets,
+  rulesAt,
+  saveRuleset,
+  type RpRules,
+  type RpRuleset,
+} from '@/lib/rpRules';
+import { useToast } from '@/components/ToastProvider';
+
+// Value for a datetime-local input, in local time
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function RpRulesPage() {
+  const router = useRouter();
+  const { success, error: showError } = useToast();
+
+  const [loading, setLoading] = useState(true);
+  const [season, setSeason] = useState<Season | null>(null);
+  const [rulesets, setRulesets] = useState<RpRuleset[]>([]);
+  const [draft, setDraft] = useState<RpRules | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState(() => toLocalInput(new Date()));
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const seasonData = await getActiveSeason();
+      setSeason(seasonData);
+      if (!seasonData) return;
+
+      const seasonRulesets = await getSeasonRulesets(seasonData.id);
+      setRulesets(seasonRulesets);
+      setDraft(rulesAt(seasonRulesets, new Date().toISOString()));
+    } catch (err) {
+      console.error('Failed to load RP rules:', err);
+      showError('Failed to load RP rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // One entry cost per rank in this season's tier table
+  const ranks = useMemo(
+    () => Array.from(new Set(normalizeRankTiers(season?.rank_tiers).map((t) => t.rank))),
+    [season]
+  );
+
+  const toWhole = (value: string) => (Number.isFinite(Number(value)) ? Math.trunc(Number(value)) : 0);
+
+  const handleSave = async () => {
+    if (!season || !draft) return;
+    setSaving(true);
+    try {
+      const saved = await saveRuleset(season.id, draft, new Date(effectiveFrom).toISOString());
+      success(`Saved RP rules v${saved.version}`);
+      await loadData();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save RP rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-[calc(100vh-4rem)] bg-primary flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-10 h-10 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+          <p className="text-sm text-secondary">Loading...</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!season || !draft) {
+    return (
+      <main className="min-h-[calc(100vh-4rem)] bg-primary flex items-center justify-center px-4">
+        <div className="card p-8 text-center max-w-md">
+          <h2 className="text-xl font-bold text-primary mb-2">No Active Season</h2>
+          <p className="text-secondary text-sm mb-6">RP rules are set per season.</p>
+          <button onClick={() => router.push('/app')} className="btn-secondary">Go to Dashboard</button>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-[calc(100vh-4rem)] bg-primary py-8">
+      <div className="page-container page-transition">
+        <div className="mb-8">
+          <h1 className="text-2xl sm:text-3xl font-extrabold text-primary mb-1">
+            Season {season.season_number} <span className="text-accent">RP Rules</span>
+          </h1>
+          <p className="text-secondary text-sm">
+            The tracker pre-fills each player&apos;s RP change from these rules. When ranked scoring
+            changes, save a new version from the time it takes effect.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <div className="card p-6">
+              <div className="section-header mb-4">
+                <div className="indicator" />
+                <div className="title">Entry Cost</div>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {ranks.map((rank) => (
+                  <label key={rank} className="block">
+                    <span className="text-xs text-tertiary uppercase tracking-wider">{rank}</span>
+                    <input
+                      type="number"
+                      value={draft.entryCost[rank] ?? 0}
+                      onChange={(e) =>
+                        setDraft({ ...draft, entryCost: { ...draft.entryCost, [rank]: toWhole(e.target.value) } })
+                      }
+                      className="input mt-1"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="card p-6">
+              <div className="section-header mb-4">
+                <div className="indicator" />
+                <div className="title">Placement Points</div>
+              </div>
+              <div className="grid grid-cols-4 sm:grid-cols-5 gap-3">
+                {draft.placementPoints.map((points, i) => (
+                  <label key={i} className="block">
+                    <span className="text-xs text-tertiary">#{i + 1}</span>
+                    <input
+                      type="number"
+                      value={points}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          placementPoints: draft.placementPoints.map((p, j) => (j === i ? toWhole(e.target.value) : p)),
+                        })
+                      }
+                      className="input mt-1"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="card p-6">
+              <div className="section-header mb-4">
+                <div className="indicator" />
+                <div className="title">Kills &amp; Assists</div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-xs text-tertiary uppercase tracking-wider">RP per kill / assist</span>
+                  <input
+                    type="number"
+                    value={draft.killPoints}
+                    onChange={(e) => setDraft({ ...draft, killPoints: toWhole(e.target.value) })}
+                    className="input mt-1"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs text-tertiary uppercase tracking-wider">Counted per game (cap)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.killCap}
+                    onChange={(e) => setDraft({ ...draft, killCap: Math.max(0, toWhole(e.target.value)) })}
+                    className="input mt-1"
+                  />
+                </label>
+              </div>
+            </div>
+
+            <div className="card p-6 flex flex-col sm:flex-row sm:items-end gap-4">
+              <label className="block flex-1">
+                <span className="text-xs text-tertiary uppercase tracking-wider">Takes effect from</span>
+                <input
+                  type="datetime-local"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                  className="input mt-1"
+                />
+              </label>
+              <button onClick={handleSave} disabled={saving || !effectiveFrom} className="btn-primary">
+                {saving ? 'Saving...' : 'Save New Version'}
+              </button>
+            </div>
+          </div>
+
+          <div className="card p-6 h-fit">
+            <div className="section-header mb-4">
+              <div className="indicator" />
+              <div className="title">Versions</div>
+            </div>
+            {rulesets.length === 0 ? (
+              <p className="text-sm text-tertiary">No versions saved yet. The default rules are in use.</p>
+            ) : (
+              <ul className="space-y-3">
+                {[...rulesets].reverse().map((r) => (
+                  <li key={r.id} className="flex items-center justify-between text-sm">
+                    <span className="font-semibold text-primary">v{r.version}</span>
+                    <span className="text-secondary">from {formatDateTime(r.effective_from)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -3,6 +3,8 @@
 import { useEffect, useState, useMemo, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import {
+  BarChart,
+  Bar,
   LineChart,
   Line,
   XAxis,
@@ -11,38 +13,72 @@ import {
   Legend,
   ResponsiveContainer,
   CartesianGrid,
+  ReferenceDot,
   ReferenceLine,
 } from 'recharts';
 import { supabase } from '@/lib/supabase/client';
-import { getActiveSeason, type Season } from '@/lib/seasons';
+import { getSeasons, setMyStartingRp, type Season } from '@/lib/seasons';
+import { formatWeekLabel, getWeekEnd, getWeekStart } from '@/lib/weeks';
 import { fetchMyProfile, type Profile } from '@/lib/auth';
+import { formatMilestone, normalizeMilestoneTiers } from '@/lib/milestones';
+import {
+  RANK_COLORS,
+  formatTier,
+  nextTier,
+  normalizeRankTiers,
+  rankEvents,
+  tierForRp,
+} from '@/lib/ranks';
+import {
+  RECORD_LABELS,
+  computeRecords,
+  formatRecordValue,
+  recordSessionFromRow,
+  recordsSetIn,
+  type PersonalRecords,
+  type RecordSession,
+} from '@/lib/records';
+import {
+  computePlacementStats,
+  formatAvgPlacement,
+  formatDuration,
+  formatRate,
+  perGame,
+  rollingAverage,
+  sumTotals,
+  totalsFromRow,
+  type GameLogEntry,
+  type StatTotals,
+} from '@/lib/stats';
+import ConsistencyBoard from '@/components/ConsistencyBoard';
+import HeadToHead from '@/components/HeadToHead';
+import PastSessions from '@/components/PastSessions';
+import SeasonComparison, { type SeasonResult } from '@/components/SeasonComparison';
+import SeasonPicker from '@/components/SeasonPicker';
 
 // ── Types ──────────────────────────────────────────────────────────────────────
 
 type SeasonPlayer = {
   user_id: string;
   display_name: string;
+  /** Ranked RP when the season started */
+  starting_rp: number;
 };
 
-type RawSession = {
+type RawSession = StatTotals & {
+  /** Session id, or the save time for rows saved before sessions had ids */
+  sessionKey: string;
+  createdAt: string;
   date: string;
   rp: number;
-  kills: number;
-  damage: number;
-  donuts: number;
-  oneK: number;
-  twoK: number;
+  placements: number[];
+  games: GameLogEntry[];
 };
 
-type PlayerStats = {
+type PlayerStats = StatTotals & {
   user_id: string;
   display_name: string;
-  totalKills: number;
-  totalDamage: number;
   totalRP: number;
-  donuts: number;
-  oneKGames: number;
-  twoKGames: number;
   rpHistory: { date: string; rp: number }[];
   sessions: RawSession[];
 };
@@ -53,6 +89,17 @@ type BestSession = {
   players: { name: string; rp: number }[];
 };
 
+type SquadSession = {
+  session_id: string;
+  games: number;
+  wins: number;
+  avg_placement: number;
+  total_rp: number;
+  ended_at: string;
+  duration_seconds: number;
+  roster: { userId: string | null; name: string }[];
+};
+
 type ChartDataPoint = {
   date: string;
   [key: string]: string | number;
@@ -73,6 +120,9 @@ const PLAYER_COLORS = [
   '#F97316',
 ];
 
+// Games averaged by the rolling placement line
+const PLACEMENT_WINDOW = 10;
+
 // ── Date helpers ───────────────────────────────────────────────────────────────
 
 function formatDateLabel(isoDate: string): string {
@@ -85,31 +135,6 @@ function formatFullDate(isoDate: string): string {
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
-/** Returns the Monday of the week containing dateStr (ISO format) */
-function getWeekStart(dateStr: string): string {
-  const date = new Date(dateStr + 'T12:00:00');
-  const day = date.getDay(); // 0=Sun
-  const diff = day === 0 ? -6 : 1 - day;
-  const monday = new Date(date);
-  monday.setDate(date.getDate() + diff);
-  return monday.toISOString().split('T')[0];
-}
-
-/** Returns the Sunday of the week (6 days after Monday) */
-function getWeekEnd(weekStart: string): string {
-  const date = new Date(weekStart + 'T12:00:00');
-  date.setDate(date.getDate() + 6);
-  return date.toISOString().split('T')[0];
-}
-
-function formatWeekLabel(weekStart: string): string {
-  const end = getWeekEnd(weekStart);
-  const s = new Date(weekStart + 'T12:00:00');
-  const e = new Date(end + 'T12:00:00');
-  const fmt = (d: Date) => d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  return `${fmt(s)} – ${fmt(e)}`;
-}
-
 function getDateRangeFromStats(playerStats: PlayerStats[]): string[] {
   const allDates = new Set<string>();
   playerStats.forEach((p) => p.rpHistory.forEach((e) => allDates.add(e.date)));
@@ -233,40 +258,60 @@ export default function SeasonProgressionPage() {
   const [error, setError] = useState<string | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [season, setSeason] = useState<Season | null>(null);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string | null>(null);
   const [players, setPlayers] = useState<SeasonPlayer[]>([]);
   const [playerStats, setPlayerStats] = useState<PlayerStats[]>([]);
   const [bestSession, setBestSession] = useState<BestSession | null>(null);
   const [worstSession, setWorstSession] = useState<BestSession | null>(null);
+  const [squadSessions, setSquadSessions] = useState<SquadSession[]>([]);
+  const [playerRecords, setPlayerRecords] = useState<
+    Record<string, { records: PersonalRecords; sessions: RecordSession[] }>
+  >({});
+  const [seasonHistory, setSeasonHistory] = useState<SeasonResult[]>([]);
   const [selectedPlayers, setSelectedPlayers] = useState<'all' | string[]>('all');
+  const [showRanks, setShowRanks] = useState(false);
+  const [startingRpInput, setStartingRpInput] = useState('');
+  const [savingStartingRp, setSavingStartingRp] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('season');
   const [selectedWeek, setSelectedWeek] = useState<string>('');
 
   const loadData = useCallback(async () => {
     try {
       setError(null);
-      const [profileData, seasonData] = await Promise.all([fetchMyProfile(), getActiveSeason()]);
+      const [profileData, allSeasons] = await Promise.all([fetchMyProfile(), getSeasons()]);
+      // The picked season, else the active one, else the latest
+      const seasonData =
+        allSeasons.find((s) => s.id === selectedSeasonId) ??
+        allSeasons.find((s) => s.is_active) ??
+        allSeasons[0] ??
+        null;
       setProfile(profileData);
+      setSeasons(allSeasons);
       setSeason(seasonData);
       if (!seasonData) { setLoading(false); return; }
 
       // Players
       const { data: playerData, error: playerError } = await supabase
         .from('season_players')
-        .select('user_id, profiles (display_name)')
+        .select('user_id, starting_rp, profiles (display_name)')
         .eq('season_id', seasonData.id);
       if (playerError) throw playerError;
 
       const playersList: SeasonPlayer[] = (playerData ?? []).map((p: Record<string, unknown>) => ({
         user_id: p.user_id as string,
         display_name: (p.profiles as Record<string, string>)?.display_name ?? 'Unknown',
+        starting_rp: (p.starting_rp as number | null) ?? 0,
       }));
       setPlayers(playersList);
+      const mine = playersList.find((p) => p.user_id === profileData?.id);
+      setStartingRpInput(mine ? String(mine.starting_rp) : '');
 
       // Stats per player
       const statsPromises = playersList.map(async (player) => {
         const { data: statsData, error: statsError } = await supabase
           .from('season_player_stats')
-          .select('games, total_damage, total_kills, one_k_games, two_k_games, donuts, total_rp, created_at')
+          .select('session_id, games, total_damage, total_kills, milestone_games, donuts, total_rp, placements, game_log, created_at')
           .eq('season_id', seasonData.id)
           .eq('user_id', player.user_id)
           .order('created_at', { ascending: true });
@@ -274,25 +319,22 @@ export default function SeasonProgressionPage() {
         if (statsError) { console.error('Stats error for', player.display_name, statsError); return null; }
 
         const stats = statsData ?? [];
+        const sessions: RawSession[] = stats.map((s) => ({
+          ...totalsFromRow(s),
+          sessionKey: s.session_id || s.created_at.slice(0, 16),
+          createdAt:  s.created_at,
+          date:       s.created_at.split('T')[0],
+          rp:         s.total_rp || 0,
+          placements: s.placements ?? [],
+          games:      s.game_log ?? [],
+        }));
         return {
+          ...sumTotals(sessions),
           user_id: player.user_id,
           display_name: player.display_name,
-          totalKills:  stats.reduce((s, r) => s + r.total_kills, 0),
-          totalDamage: stats.reduce((s, r) => s + r.total_damage, 0),
-          totalRP:     stats.reduce((s, r) => s + (r.total_rp || 0), 0),
-          donuts:      stats.reduce((s, r) => s + r.donuts, 0),
-          oneKGames:   stats.reduce((s, r) => s + r.one_k_games, 0),
-          twoKGames:   stats.reduce((s, r) => s + r.two_k_games, 0),
-          rpHistory: stats.map((s) => ({ date: s.created_at.split('T')[0], rp: s.total_rp || 0 })),
-          sessions: stats.map((s) => ({
-            date:   s.created_at.split('T')[0],
-            rp:     s.total_rp || 0,
-            kills:  s.total_kills,
-            damage: s.total_damage,
-            donuts: s.donuts,
-            oneK:   s.one_k_games,
-            twoK:   s.two_k_games,
-          })),
+          totalRP:   sessions.reduce((s, r) => s + r.rp, 0),
+          rpHistory: sessions.map((s) => ({ date: s.date, rp: s.rp })),
+          sessions,
         } as PlayerStats;
       });
 
@@ -311,7 +353,7 @@ export default function SeasonProgressionPage() {
           const groupKey = row.session_id || row.created_at.slice(0, 16);
           if (!sessionMap[groupKey]) sessionMap[groupKey] = { date: row.created_at.split('T')[0], players: [] };
           sessionMap[groupKey].players.push({
-            name: (row.profiles as { display_name: string }).display_name,
+            name: (row.profiles as unknown as { display_name: string }).display_name,
             rp: row.total_rp || 0,
           });
         }
@@ -330,12 +372,63 @@ export default function SeasonProgressionPage() {
         setWorstSession(worst);
       }
 
+      // Squad summaries, one per ended session
+      const { data: summaryData, error: summaryError } = await supabase
+        .from('season_session_summaries')
+        .select('session_id, games, wins, avg_placement, total_rp, ended_at, duration_seconds, roster')
+        .eq('season_id', seasonData.id)
+        .order('ended_at', { ascending: true });
+      if (summaryError) throw summaryError;
+      setSquadSessions((summaryData ?? []) as SquadSession[]);
+
+      // Personal records and season-over-season results span every season,
+      // so load each player's full history
+      if (playersList.length > 0) {
+        const userIds = playersList.map((p) => p.user_id);
+        const [{ data: recordRows, error: recordsError }, { data: memberRows, error: membersError }] =
+          await Promise.all([
+            supabase
+              .from('season_player_stats')
+              .select('user_id, season_id, session_id, created_at, game_log, games, total_damage, total_kills, milestone_games, donuts, total_rp')
+              .in('user_id', userIds)
+              .order('created_at', { ascending: true }),
+            supabase.from('season_players').select('user_id, season_id, starting_rp').in('user_id', userIds),
+          ]);
+        if (recordsError) throw recordsError;
+        if (membersError) throw membersError;
+
+        const byPlayer: Record<string, { records: PersonalRecords; sessions: RecordSession[] }> = {};
+        for (const player of playersList) {
+          const sessions = (recordRows ?? [])
+            .filter((r) => r.user_id === player.user_id)
+            .map(recordSessionFromRow)
+            .filter((r) => r.games.length > 0);
+          byPlayer[player.user_id] = { records: computeRecords(sessions), sessions };
+        }
+        setPlayerRecords(byPlayer);
+
+        const history: Record<string, SeasonResult> = {};
+        for (const row of recordRows ?? []) {
+          const key = `${row.user_id}:${row.season_id}`;
+          const prev = history[key];
+          history[key] = {
+            ...sumTotals(prev ? [prev, totalsFromRow(row)] : [totalsFromRow(row)]),
+            userId: row.user_id,
+            seasonId: row.season_id,
+            totalRP: (prev?.totalRP ?? 0) + (row.total_rp || 0),
+            startingRp:
+              memberRows?.find((m) => m.user_id === row.user_id && m.season_id === row.season_id)?.starting_rp ?? 0,
+          };
+        }
+        setSeasonHistory(Object.values(history));
+      }
+
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load data');
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [selectedSeasonId]);
 
   useEffect(() => { loadData(); }, [loadData]);
 
@@ -380,11 +473,12 @@ export default function SeasonProgressionPage() {
         if (cumulativeByPlayer[player.user_id]?.[date] !== undefined) {
           cumulative[player.user_id] = cumulativeByPlayer[player.user_id][date];
         }
-        point[player.display_name] = cumulative[player.user_id];
+        // With ranks shown, plot ranked RP rather than RP gained this season
+        point[player.display_name] = cumulative[player.user_id] + (showRanks ? player.starting_rp : 0);
       }
       return point;
     });
-  }, [playerStats, players]);
+  }, [playerStats, players, showRanks]);
 
   // ── Weekly chart data ────────────────────────────────────────────────────────
 
@@ -411,6 +505,21 @@ export default function SeasonProgressionPage() {
 
   const chartData = viewMode === 'season' ? seasonChartData : weeklyChartData;
 
+  // ── Ranked overlay ───────────────────────────────────────────────────────────
+
+  const rankTiers = useMemo(() => normalizeRankTiers(season?.rank_tiers), [season]);
+  const rankOverlay = showRanks && viewMode === 'season';
+
+  const playerRanks = useMemo(
+    () =>
+      players.map((player) => {
+        const gained = playerStats.find((p) => p.user_id === player.user_id)?.totalRP ?? 0;
+        const rp = player.starting_rp + gained;
+        return { ...player, rp, tier: tierForRp(rp, rankTiers), next: nextTier(rp, rankTiers) };
+      }),
+    [players, playerStats, rankTiers]
+  );
+
   // ── Weekly stats for awards ──────────────────────────────────────────────────
 
   const weeklyPlayerStats = useMemo((): PlayerStats[] => {
@@ -420,34 +529,122 @@ export default function SeasonProgressionPage() {
       const weekSessions = p.sessions.filter((s) => s.date >= selectedWeek && s.date <= weekEnd);
       return {
         ...p,
-        totalKills:  weekSessions.reduce((s, r) => s + r.kills, 0),
-        totalDamage: weekSessions.reduce((s, r) => s + r.damage, 0),
-        totalRP:     weekSessions.reduce((s, r) => s + r.rp, 0),
-        donuts:      weekSessions.reduce((s, r) => s + r.donuts, 0),
-        oneKGames:   weekSessions.reduce((s, r) => s + r.oneK, 0),
-        twoKGames:   weekSessions.reduce((s, r) => s + r.twoK, 0),
+        ...sumTotals(weekSessions),
+        totalRP: weekSessions.reduce((s, r) => s + r.rp, 0),
       };
     });
   }, [playerStats, selectedWeek]);
 
   const activeStats = viewMode === 'season' ? playerStats : weeklyPlayerStats;
 
+  // ── Squad summary ────────────────────────────────────────────────────────────
+
+  // Ended sessions in the season or week being viewed
+  const viewSessions = useMemo(() => {
+    const weekEnd = selectedWeek ? getWeekEnd(selectedWeek) : '';
+    return squadSessions.filter((s) => {
+      const date = s.ended_at.split('T')[0];
+      return viewMode === 'season' || (date >= selectedWeek && date <= weekEnd);
+    });
+  }, [squadSessions, viewMode, selectedWeek]);
+
+  const squadSummary = useMemo(() => {
+    if (!viewSessions.length) return null;
+
+    const games = viewSessions.reduce((sum, s) => sum + s.games, 0);
+    const wins = viewSessions.reduce((sum, s) => sum + s.wins, 0);
+    // Most wins; ties go to the session with more squad RP
+    const best = viewSessions.reduce((a, b) =>
+      b.wins > a.wins || (b.wins === a.wins && b.total_rp > a.total_rp) ? b : a
+    );
+
+    return {
+      sessions: viewSessions.length,
+      games,
+      wins,
+      winRate: perGame(wins, games),
+      best: best.wins > 0 ? best : null,
+    };
+  }, [viewSessions]);
+
+  // ── Records broken ───────────────────────────────────────────────────────────
+
+  const recordCallouts = useMemo(() => {
+    const weekEnd = selectedWeek ? getWeekEnd(selectedWeek) : '';
+    return playerStats.flatMap((p) => {
+      const history = playerRecords[p.user_id];
+      if (!history) return [];
+      const keys = p.sessions
+        .filter((s) => viewMode === 'season' || (s.date >= selectedWeek && s.date <= weekEnd))
+        .map((s) => s.sessionKey)
+        // A player's first session sets every record; don't call those out
+        .filter((key) => key !== history.sessions[0]?.sessionKey);
+      return recordsSetIn(history.records, keys).map((record) => ({ name: p.display_name, record }));
+    });
+  }, [playerStats, playerRecords, viewMode, selectedWeek]);
+
+  // ── Squad placements ─────────────────────────────────────────────────────────
+
+  // Every player in a session shares its placements, so take each session once,
+  // from the player who took part in the most of its games
+  const squadPlacements = useMemo((): number[] => {
+    const weekEnd = selectedWeek ? getWeekEnd(selectedWeek) : '';
+    const inView = (s: RawSession) =>
+      viewMode === 'season' || (s.date >= selectedWeek && s.date <= weekEnd);
+
+    const bySession = new Map<string, RawSession>();
+    for (const p of playerStats) {
+      for (const s of p.sessions.filter(inView)) {
+        const seen = bySession.get(s.sessionKey);
+        if (!seen || s.placements.length > seen.placements.length) bySession.set(s.sessionKey, s);
+      }
+    }
+    return Array.from(bySession.values())
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .flatMap((s) => s.placements);
+  }, [playerStats, viewMode, selectedWeek]);
+
+  const placementStats = useMemo(() => computePlacementStats(squadPlacements), [squadPlacements]);
+
+  const placementHistogram = useMemo(
+    () => placementStats.histogram.map((games, i) => ({ placement: `#${i + 1}`, games })),
+    [placementStats]
+  );
+
+  const placementTrend = useMemo(
+    () =>
+      rollingAverage(squadPlacements, PLACEMENT_WINDOW).map((avg, i) => ({
+        game: i + 1,
+        placement: squadPlacements[i],
+        average: Math.round(avg * 10) / 10,
+      })),
+    [squadPlacements]
+  );
+
   // ── Highlights (awards) ──────────────────────────────────────────────────────
 
+  const milestoneTiers = useMemo(() => normalizeMilestoneTiers(season?.milestone_tiers), [season]);
+
   const highlights = useMemo(() => {
     if (!activeStats.length) return null;
     const sortBy = (key: keyof PlayerStats) =>
       [...activeStats].sort((a, b) => (b[key] as number) - (a[key] as number));
+    const tierCount = (p: PlayerStats, tier: number) => p.milestones[tier] ?? 0;
 
     return {
       top3Kills:   sortBy('totalKills').slice(0, 3).map((p) => ({ name: p.display_name, value: p.totalKills })),
       top3Damage:  sortBy('totalDamage').slice(0, 3).map((p) => ({ name: p.display_name, value: p.totalDamage })),
       top3RP:      sortBy('totalRP').slice(0, 3).map((p) => ({ name: p.display_name, value: p.totalRP > 0 ? `+${p.totalRP}` : p.totalRP })),
-      top31K:      sortBy('oneKGames').slice(0, 3).map((p) => ({ name: p.display_name, value: p.oneKGames })),
-      top32K:      sortBy('twoKGames').slice(0, 3).map((p) => ({ name: p.display_name, value: p.twoKGames })),
       top3Donuts:  sortBy('donuts').slice(0, 3).map((p) => ({ name: p.display_name, value: p.donuts })),
+      top3Milestones: milestoneTiers.map((tier) => ({
+        tier,
+        players: [...activeStats]
+          .sort((a, b) => tierCount(b, tier) - tierCount(a, tier))
+          .slice(0, 3)
+          .map((p) => ({ name: p.display_name, value: tierCount(p, tier) })),
+      })),
     };
-  }, [activeStats]);
+  }, [activeStats, milestoneTiers]);
 
   // ── Visible players for chart ────────────────────────────────────────────────
 
@@ -456,6 +653,44 @@ export default function SeasonProgressionPage() {
     return players.filter((p) => selectedPlayers.includes(p.user_id));
   }, [players, selectedPlayers]);
 
+  // Per-game logs for the consistency board, limited to the visible players and current view
+  const consistencyPlayers = useMemo(() => {
+    const weekEnd = selectedWeek ? getWeekEnd(selectedWeek) : '';
+    return visiblePlayers.flatMap((player) => {
+      const stats = playerStats.find((s) => s.user_id === player.user_id);
+      if (!stats) return [];
+      return [{
+        user_id: player.user_id,
+        display_name: player.display_name,
+        color: PLAYER_COLORS[players.indexOf(player) % PLAYER_COLORS.length],
+        sessions: stats.sessions.filter(
+          (s) => viewMode === 'season' || (s.date >= selectedWeek && s.date <= weekEnd)
+        ),
+      }];
+    });
+  }, [visiblePlayers, players, playerStats, viewMode, selectedWeek]);
+
+  // Tier thresholds from the lowest visible tier up to the next one above the highest RP
+  const rankLines = useMemo(() => {
+    if (!rankOverlay || !chartData.length || !visiblePlayers.length) return [];
+    const values = chartData.flatMap((pt) => visiblePlayers.map((p) => Number(pt[p.display_name] ?? 0)));
+    const low = tierForRp(Math.min(...values), rankTiers).minRp;
+    const high = nextTier(Math.max(...values), rankTiers)?.tier.minRp ?? Math.max(...values);
+    return rankTiers.filter((t) => t.minRp >= low && t.minRp <= high);
+  }, [rankOverlay, chartData, visiblePlayers, rankTiers]);
+
+  const rankMarkers = useMemo(() => {
+    if (!rankOverlay) return [];
+    return visiblePlayers.flatMap((player) => {
+      const series = chartData.map((pt) => ({ date: String(pt.date), rp: Number(pt[player.display_name] ?? 0) }));
+      return rankEvents(series, rankTiers).map((event) => ({
+        ...event,
+        player,
+        rp: series.find((pt) => pt.date === event.date)?.rp ?? 0,
+      }));
+    });
+  }, [rankOverlay, chartData, visiblePlayers, rankTiers]);
+
   // ── Player filter handlers ───────────────────────────────────────────────────
 
   function handleAllChange(checked: boolean) { setSelectedPlayers(checked ? 'all' : []); }
@@ -467,6 +702,26 @@ export default function SeasonProgressionPage() {
     }
   }
 
+  function handleSeasonChange(next: Season) {
+    setLoading(true);
+    setSelectedWeek('');
+    setSelectedPlayers('all');
+    setSelectedSeasonId(next.id);
+  }
+
+  async function handleSaveStartingRp() {
+    const value = Number(startingRpInput);
+    setSavingStartingRp(true);
+    try {
+      await setMyStartingRp(value);
+      setPlayers((prev) => prev.map((p) => (p.user_id === profile?.id ? { ...p, starting_rp: value } : p)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save starting RP');
+    } finally {
+      setSavingStartingRp(false);
+    }
+  }
+
   // ── Loading / auth guards ────────────────────────────────────────────────────
 
   if (loading) {
@@ -496,8 +751,8 @@ export default function SeasonProgressionPage() {
     return (
       <main className="min-h-[calc(100vh-4rem)] bg-primary flex items-center justify-center px-4">
         <div className="card p-8 text-center max-w-md">
-          <h2 className="text-xl font-bold text-primary mb-2">No Active Season</h2>
-          <p className="text-secondary text-sm mb-6">A season must be active to view the leaderboard.</p>
+          <h2 className="text-xl font-bold text-primary mb-2">No Seasons Yet</h2>
+          <p className="text-secondary text-sm mb-6">A season must be set to view the leaderboard.</p>
           <button onClick={() => router.push('/app')} className="btn-secondary">Go to Dashboard</button>
         </div>
       </main>
@@ -516,9 +771,16 @@ export default function SeasonProgressionPage() {
             <h1 className="text-2xl sm:text-3xl font-extrabold text-primary mb-1">
               Season {season.season_number} <span className="text-accent">Leaderboard</span>
             </h1>
-            <p className="text-secondary text-sm">Track your squad&apos;s RP journey and see who&apos;s leading.</p>
+            <p className="text-secondary text-sm">
+              {season.is_active
+                ? <>Track your squad&apos;s RP journey and see who&apos;s leading.</>
+                : 'A past season. Stats are final.'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <SeasonPicker seasons={seasons} value={season.id} onChange={handleSeasonChange} />
+            <ViewToggle mode={viewMode} onChange={(m) => setViewMode(m)} />
           </div>
-          <ViewToggle mode={viewMode} onChange={(m) => setViewMode(m)} />
         </div>
 
         {/* Error */}
@@ -582,6 +844,59 @@ export default function SeasonProgressionPage() {
           </div>
         )}
 
+        {/* Squad */}
+        {squadSummary && (
+          <div className="card p-6 mb-8">
+            <div className="section-header mb-4">
+              <div className="indicator" />
+              <div className="title">{viewMode === 'season' ? 'Squad This Season' : 'Squad This Week'}</div>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-card rounded-xl p-4 text-center border border-themed">
+                  <div className="text-xs text-tertiary uppercase tracking-wider mb-1">Wins</div>
+                  <div className="text-3xl font-extrabold text-accent">{squadSummary.wins}</div>
+                </div>
+                <div className="bg-card rounded-xl p-4 text-center border border-themed">
+                  <div className="text-xs text-tertiary uppercase tracking-wider mb-1">Win Rate</div>
+                  <div className="text-3xl font-extrabold text-primary">{formatRate(squadSummary.winRate)}</div>
+                </div>
+                <div className="bg-card rounded-xl p-4 text-center border border-themed">
+                  <div className="text-xs text-tertiary uppercase tracking-wider mb-1">Sessions</div>
+                  <div className="text-3xl font-extrabold text-primary">{squadSummary.sessions}</div>
+                  <div className="text-xs text-tertiary mt-1">{squadSummary.games} games</div>
+                </div>
+              </div>
+              {squadSummary.best ? (
+                <div className="bg-card rounded-xl p-4 border border-themed">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="text-xs font-semibold uppercase tracking-wider text-amber-500">👑 Most Wins in a Session</div>
+                    <div className="text-sm text-secondary">{formatFullDate(squadSummary.best.ended_at)}</div>
+                  </div>
+                  <div className="text-2xl font-bold text-primary">
+                    {squadSummary.best.wins} {squadSummary.best.wins === 1 ? 'win' : 'wins'}
+                    <span className="text-sm font-normal text-secondary"> in {squadSummary.best.games} games</span>
+                  </div>
+                  <div className="text-sm text-secondary mt-1">
+                    Avg placement {formatAvgPlacement(Number(squadSummary.best.avg_placement))}
+                    {' · '}{squadSummary.best.total_rp > 0 ? '+' : ''}{squadSummary.best.total_rp} RP
+                    {' · '}{formatDuration(squadSummary.best.duration_seconds)}
+                  </div>
+                  <div className="text-xs text-tertiary mt-2 truncate">
+                    {squadSummary.best.roster.map((p) => p.name).join(', ')}
+                  </div>
+                </div>
+              ) : (
+                <div className="bg-card rounded-xl p-4 border border-themed flex items-center justify-center text-sm text-tertiary">
+                  No wins yet.
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <PastSessions sessions={viewSessions} />
+
         {/* Awards */}
         {highlights && (
           <div className="mb-8">
@@ -600,13 +915,43 @@ export default function SeasonProgressionPage() {
               <HighlightCard title="Most Kills"    players={highlights.top3Kills}   icon="🎯" type="gold" />
               <HighlightCard title="Most Damage"   players={highlights.top3Damage}  icon="💥" type="gold" />
               <HighlightCard title="Most RP"       players={highlights.top3RP}      icon="📈" type="gold" />
-              <HighlightCard title="Most 1K Games" players={highlights.top31K}      icon="🔥" type="gold" />
-              <HighlightCard title="Most 2K Games" players={highlights.top32K}      icon="⚡" type="gold" />
+              {highlights.top3Milestones.map(({ tier, players }, i) => (
+                <HighlightCard
+                  key={tier}
+                  title={`Most ${formatMilestone(tier)} Games`}
+                  players={players}
+                  icon={i % 2 === 0 ? '🔥' : '⚡'}
+                  type="gold"
+                />
+              ))}
               <HighlightCard title="Most Donuts"   players={highlights.top3Donuts}  icon="🍩" type="shame" />
             </div>
           </div>
         )}
 
+        {/* Records broken */}
+        {recordCallouts.length > 0 && (
+          <div className="mb-8 rounded-2xl border border-amber-500/30 bg-amber-500/5 p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <span className="text-2xl">🏆</span>
+              <div className="text-xs font-semibold uppercase tracking-wider text-amber-500">
+                {viewMode === 'season' ? 'Records Broken This Season' : 'Records Broken This Week'}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {recordCallouts.map(({ name, record }) => (
+                <div key={`${name}-${record.key}`} className="bg-card rounded-xl p-4 border border-themed">
+                  <div className="text-xs text-tertiary uppercase tracking-wider mb-1">{RECORD_LABELS[record.key]}</div>
+                  <div className="text-xl font-bold text-primary">{formatRecordValue(record)}</div>
+                  <div className="text-sm text-secondary">
+                    {name} · {formatFullDate(record.date)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Player Filters */}
         {players.length > 0 && (
           <div className="card p-4 mb-6">
@@ -653,8 +998,19 @@ export default function SeasonProgressionPage() {
               {viewMode === 'weekly' && availableWeeks.length > 0 && selectedWeek && (
                 <WeekNavigator weeks={availableWeeks} selectedWeek={selectedWeek} onChange={setSelectedWeek} />
               )}
+              {viewMode === 'season' && (
+                <label className="flex items-center gap-2 text-sm text-secondary cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showRanks}
+                    onChange={(e) => setShowRanks(e.target.checked)}
+                    className="w-4 h-4 rounded border-2 accent-accent cursor-pointer"
+                  />
+                  Show ranks
+                </label>
+              )}
               <div className="text-sm text-secondary">
-                {viewMode === 'season' ? 'Cumulative RP gains' : 'Daily RP this week'}
+                {viewMode === 'weekly' ? 'Daily RP this week' : rankOverlay ? 'Ranked RP' : 'Cumulative RP gains'}
               </div>
             </div>
           </div>
@@ -698,7 +1054,29 @@ export default function SeasonProgressionPage() {
                     labelStyle={{ color: 'var(--text-secondary)' }}
                   />
                   <Legend />
-                  <ReferenceLine y={0} stroke="var(--text-muted)" strokeDasharray="3 3" />
+                  {!rankOverlay && <ReferenceLine y={0} stroke="var(--text-muted)" strokeDasharray="3 3" />}
+                  {rankLines.map((tier) => (
+                    <ReferenceLine
+                      key={formatTier(tier)}
+                      y={tier.minRp}
+                      stroke={RANK_COLORS[tier.rank] ?? 'var(--text-muted)'}
+                      strokeDasharray={tier.division === 4 || tier.division === null ? undefined : '2 4'}
+                      strokeOpacity={0.6}
+                      ifOverflow="extendDomain"
+                      label={{ value: formatTier(tier), position: 'insideTopLeft', fontSize: 10, fill: RANK_COLORS[tier.rank] ?? 'var(--text-muted)' }}
+                    />
+                  ))}
+                  {rankMarkers.map((m) => (
+                    <ReferenceDot
+                      key={`${m.player.user_id}-${m.date}`}
+                      x={m.date}
+                      y={m.rp}
+                      r={7}
+                      fill={m.type === 'promotion' ? '#10B981' : '#EF4444'}
+                      stroke="var(--bg-card)"
+                      label={{ value: m.type === 'promotion' ? '▲' : '▼', position: 'top', fontSize: 11, fill: m.type === 'promotion' ? '#10B981' : '#EF4444' }}
+                    />
+                  ))}
                   {visiblePlayers.map((player) => {
                     const playerIndex = players.findIndex((p) => p.user_id === player.user_id);
                     return (
@@ -719,6 +1097,193 @@ export default function SeasonProgressionPage() {
           )}
         </div>
 
+        {/* Consistency */}
+        <ConsistencyBoard players={consistencyPlayers} />
+
+        {/* Ranks */}
+        {playerRanks.length > 0 && (
+          <div className="card p-6 mt-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+              <div className="section-header mb-0">
+                <div className="indicator" />
+                <div className="title">Ranked</div>
+              </div>
+              {season.is_active && players.some((p) => p.user_id === profile.id) && (
+                <div className="flex items-center gap-2">
+                  <label htmlFor="starting-rp" className="text-sm text-secondary">My starting RP</label>
+                  <input
+                    id="starting-rp"
+                    type="number"
+                    min={0}
+                    value={startingRpInput}
+                    onChange={(e) => setStartingRpInput(e.target.value)}
+                    className="input w-28 py-1.5"
+                  />
+                  <button
+                    onClick={handleSaveStartingRp}
+                    disabled={savingStartingRp || startingRpInput === ''}
+                    className="btn-secondary py-1.5"
+                  >
+                    {savingStartingRp ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {playerRanks.map((p) => (
+                <div key={p.user_id} className="bg-card rounded-xl p-4 border border-themed">
+                  <div className="text-sm font-semibold text-primary truncate mb-1">{p.display_name}</div>
+                  <div className="text-xl font-bold" style={{ color: RANK_COLORS[p.tier.rank] }}>
+                    {formatTier(p.tier)}
+                  </div>
+                  <div className="text-sm text-secondary">{p.rp.toLocaleString()} RP</div>
+                  <div className="text-xs text-tertiary mt-1">
+                    {p.next ? `${p.next.rpToGo.toLocaleString()} RP to ${formatTier(p.next.tier)}` : 'Top tier'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Placement */}
+        <div className="mt-6">
+          <div className="section-header mb-4">
+            <div className="indicator" />
+            <div className="title">Squad Placement</div>
+          </div>
+
+          {placementStats.games === 0 ? (
+            <div className="card p-6 text-center text-sm text-tertiary">
+              {viewMode === 'weekly' ? 'No placements recorded this week.' : 'No placements recorded yet.'}
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+                {[
+                  { label: 'Win Rate', value: formatRate(placementStats.winRate), sub: `${placementStats.wins} wins` },
+                  { label: 'Top 3', value: formatRate(placementStats.top3Rate), sub: `of ${placementStats.games} games` },
+                  { label: 'Top 5', value: formatRate(placementStats.top5Rate), sub: `of ${placementStats.games} games` },
+                  { label: 'Avg Placement', value: formatAvgPlacement(placementStats.avgPlacement), sub: 'lower is better' },
+                ].map((card) => (
+                  <div key={card.label} className="card p-4">
+                    <div className="text-xs text-tertiary uppercase tracking-wider mb-1">{card.label}</div>
+                    <div className="text-2xl font-bold text-primary">{card.value}</div>
+                    <div className="text-xs text-tertiary mt-1">{card.sub}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="card p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="text-sm font-semibold text-primary">Placement Trend</div>
+                    <div className="text-xs text-tertiary">{PLACEMENT_WINDOW}-game rolling average</div>
+                  </div>
+                  <div style={{ width: '100%', height: 280 }}>
+                    <ResponsiveContainer>
+                      <LineChart data={placementTrend} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
+                        <XAxis
+                          dataKey="game"
+                          tick={{ fontSize: 11, fill: 'var(--text-tertiary)' }}
+                          axisLine={{ stroke: 'var(--border-primary)' }}
+                          tickLine={{ stroke: 'var(--border-primary)' }}
+                        />
+                        <YAxis
+                          reversed
+                          domain={[1, 20]}
+                          allowDecimals={false}
+                          tick={{ fontSize: 11, fill: 'var(--text-tertiary)' }}
+                          axisLine={{ stroke: 'var(--border-primary)' }}
+                          tickLine={{ stroke: 'var(--border-primary)' }}
+                        />
+                        <Tooltip
+                          contentStyle={{
+                            backgroundColor: 'var(--bg-card)',
+                            border: '1px solid var(--border-primary)',
+                            borderRadius: '8px',
+                            color: 'var(--text-primary)',
+                          }}
+                          labelStyle={{ color: 'var(--text-secondary)' }}
+                          labelFormatter={(game) => `Game ${game}`}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="placement"
+                          name="Placement"
+                          stroke="var(--text-muted)"
+                          strokeWidth={1}
+                          dot={{ r: 2 }}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="average"
+                          name="Rolling Avg"
+                          stroke="#E03A3E"
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+
+                <div className="card p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="text-sm font-semibold text-primary">Placement Distribution</div>
+                    <div className="text-xs text-tertiary">Games per placement</div>
+                  </div>
+                  <div style={{ width: '100%', height: 280 }}>
+                    <ResponsiveContainer>
+                      <BarChart data={placementHistogram} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
+                        <XAxis
+                          dataKey="placement"
+                          tick={{ fontSize: 10, fill: 'var(--text-tertiary)' }}
+                          interval={0}
+                          axisLine={{ stroke: 'var(--border-primary)' }}
+                          tickLine={{ stroke: 'var(--border-primary)' }}
+                        />
+                        <YAxis
+                          allowDecimals={false}
+                          tick={{ fontSize: 11, fill: 'var(--text-tertiary)' }}
+                          axisLine={{ stroke: 'var(--border-primary)' }}
+                          tickLine={{ stroke: 'var(--border-primary)' }}
+                        />
+                        <Tooltip
+                          contentStyle={{
+                            backgroundColor: 'var(--bg-card)',
+                            border: '1px solid var(--border-primary)',
+                            borderRadius: '8px',
+                            color: 'var(--text-primary)',
+                          }}
+                          labelStyle={{ color: 'var(--text-secondary)' }}
+                        />
+                        <Bar dataKey="games" name="Games" fill="#3B82F6" radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Head to head — season view only */}
+        {viewMode === 'season' && (
+          <HeadToHead
+            key={season.id}
+            players={playerStats}
+            records={playerRecords}
+            milestoneTiers={milestoneTiers}
+            defaultPlayerId={profile.id}
+          />
+        )}
+
+        {/* Season over season */}
+        <SeasonComparison seasons={seasons} players={players} results={seasonHistory} />
+
       </div>
     </main>
   );
@@ -30,6 +30,9 @@ export default function AppNav() {
   const navItems = [
     { label: 'Dashboard', href: '/app' },
     { label: 'Leaderboard', href: '/app/season-progression' },
+    { label: 'RP Rules', href: '/app/rp-rules' },
+    { label: 'Discord', href: '/app/discord-templates' },
+    { label: 'Webhooks', href: '/app/discord-destinations' },
   ];
 
   const isActive = (href: string) => {
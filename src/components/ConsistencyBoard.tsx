@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { LineChart, Line, YAxis, ReferenceArea, ResponsiveContainer } from 'recharts';
+import {
+  computeConsistency,
+  formatAvgDamage,
+  perGame,
+  sessionsInWindow,
+  type GameLogEntry,
+  type StatWindow,
+} from '@/lib/stats';
+
+type ConsistencyPlayer = {
+  user_id: string;
+  display_name: string;
+  color: string;
+  /** Sessions oldest first, each with its logged games */
+  sessions: { sessionKey: string; games: GameLogEntry[] }[];
+};
+
+const WINDOWS: { label: string; value: StatWindow }[] = [
+  { label: 'All games', value: null },
+  { label: 'Last 10 games', value: { unit: 'games', size: 10 } },
+  { label: 'Last 20 games', value: { unit: 'games', size: 20 } },
+  { label: 'Last 5 sessions', value: { unit: 'sessions', size: 5 } },
+  { label: 'Last 10 sessions', value: { unit: 'sessions', size: 10 } },
+];
+
+function scoreColor(score: number): string {
+  if (score >= 60) return 'text-success';
+  if (score >= 30) return 'text-warning';
+  return 'text-error';
+}
+
+export default function ConsistencyBoard({ players }: { players: ConsistencyPlayer[] }) {
+  const [windowIndex, setWindowIndex] = useState(0);
+  const statWindow = WINDOWS[windowIndex].value;
+
+  const rows = players
+    .map((player) => {
+      const sessions = sessionsInWindow(
+        player.sessions.filter((s) => s.games.length > 0),
+        statWindow
+      );
+      const games = sessions.flatMap((s) => s.games);
+      // A games window plots each game; otherwise each session's average
+      const spark =
+        statWindow?.unit === 'games'
+          ? games.map((g) => ({ damage: g.damage }))
+          : sessions.map((s) => ({
+              damage: perGame(s.games.reduce((sum, g) => sum + g.damage, 0), s.games.length),
+            }));
+      return { player, stats: computeConsistency(games), spark };
+    })
+    .filter((r) => r.stats.games > 0)
+    .sort((a, b) => b.stats.consistencyScore - a.stats.consistencyScore);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div className="section-header mb-0">
+          <div className="indicator" />
+          <div className="title">Consistency</div>
+        </div>
+        <select
+          value={windowIndex}
+          onChange={(e) => setWindowIndex(Number(e.target.value))}
+          aria-label="Games to include"
+          className="rounded-xl border border-themed bg-card px-3 py-2 text-sm text-primary outline-none focus:border-accent cursor-pointer"
+        >
+          {WINDOWS.map((w, i) => (
+            <option key={w.label} value={i}>{w.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {rows.map(({ player, stats, spark }) => (
+          <div key={player.user_id} className="bg-card rounded-xl p-4 border border-themed">
+            <div className="flex items-start justify-between mb-2">
+              <div>
+                <div className="text-sm font-semibold truncate" style={{ color: player.color }}>
+                  {player.display_name}
+                </div>
+                <div className="text-xs text-tertiary">{stats.games} logged {stats.games === 1 ? 'game' : 'games'}</div>
+              </div>
+              <div className="text-right">
+                <div className={`text-2xl font-bold ${scoreColor(stats.consistencyScore)}`}>{stats.consistencyScore}</div>
+                <div className="text-[11px] text-tertiary uppercase tracking-wide">Score</div>
+              </div>
+            </div>
+
+            {spark.length > 1 && (
+              <div style={{ width: '100%', height: 48 }}>
+                <ResponsiveContainer>
+                  <LineChart data={spark} margin={{ top: 4, right: 0, bottom: 4, left: 0 }}>
+                    <YAxis hide domain={[0, 'dataMax']} />
+                    <ReferenceArea y1={stats.p25Damage} y2={stats.p75Damage} fill={player.color} fillOpacity={0.12} />
+                    <Line type="monotone" dataKey="damage" stroke={player.color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2 text-xs">
+              <span className="text-tertiary">Median damage</span>
+              <span className="text-right text-primary tabular-nums">{formatAvgDamage(stats.medianDamage)}</span>
+              <span className="text-tertiary">Std deviation</span>
+              <span className="text-right text-primary tabular-nums">{formatAvgDamage(stats.damageStdDev)}</span>
+              <span className="text-tertiary">Middle 50%</span>
+              <span className="text-right text-primary tabular-nums">
+                {formatAvgDamage(stats.p25Damage)}–{formatAvgDamage(stats.p75Damage)}
+              </span>
+              <span className="text-tertiary">10th–90th pct</span>
+              <span className="text-right text-primary tabular-nums">
+                {formatAvgDamage(stats.p10Damage)}–{formatAvgDamage(stats.p90Damage)}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
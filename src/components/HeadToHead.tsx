@@ -0,0 +1,299 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+  ReferenceLine,
+} from 'recharts';
+import { formatMilestone } from '@/lib/milestones';
+import {
+  compareSessionDamage,
+  deriveStats,
+  formatAvgDamage,
+  formatAvgKills,
+  formatRate,
+  perGame,
+  sumTotals,
+  type StatTotals,
+} from '@/lib/stats';
+import {
+  RECORD_KEYS,
+  RECORD_LABELS,
+  formatRecordValue,
+  type PersonalRecords,
+} from '@/lib/records';
+
+type H2HSession = StatTotals & {
+  sessionKey: string;
+  date: string;
+  rp: number;
+};
+
+type H2HPlayer = {
+  user_id: string;
+  display_name: string;
+  sessions: H2HSession[];
+};
+
+type HeadToHeadProps = {
+  players: H2HPlayer[];
+  records: Record<string, { records: PersonalRecords } | undefined>;
+  milestoneTiers: number[];
+  /** Preselected first player, usually the signed-in user */
+  defaultPlayerId?: string;
+};
+
+const COLORS = ['#E03A3E', '#3B82F6'];
+
+function formatShortDate(isoDate: string): string {
+  const [, month, day] = isoDate.split('-');
+  return `${month}/${day}`;
+}
+
+function summarize(player: H2HPlayer | undefined, tiers: number[]) {
+  if (!player) return null;
+  const stats = deriveStats(sumTotals(player.sessions));
+  const totalRP = player.sessions.reduce((s, r) => s + r.rp, 0);
+  const best = (score: (s: H2HSession) => number) =>
+    player.sessions.reduce<H2HSession | null>((a, b) => (!a || score(b) > score(a) ? b : a), null);
+
+  return {
+    stats,
+    rpPerGame: perGame(totalRP, stats.games),
+    milestoneRates: tiers.map((tier) => perGame(stats.milestones[tier] ?? 0, stats.games)),
+    bestRpSession: best((s) => s.rp),
+    bestDamageSession: best((s) => s.totalDamage),
+  };
+}
+
+export default function HeadToHead({ players, records, milestoneTiers, defaultPlayerId }: HeadToHeadProps) {
+  const initialA = players.find((p) => p.user_id === defaultPlayerId) ?? players[0];
+  const [aId, setAId] = useState(initialA?.user_id ?? '');
+  const [bId, setBId] = useState(players.find((p) => p.user_id !== initialA?.user_id)?.user_id ?? '');
+
+  const a = players.find((p) => p.user_id === aId);
+  const b = players.find((p) => p.user_id === bId);
+  const summaryA = useMemo(() => summarize(a, milestoneTiers), [a, milestoneTiers]);
+  const summaryB = useMemo(() => summarize(b, milestoneTiers), [b, milestoneTiers]);
+  const matchup = useMemo(
+    () => (a && b ? compareSessionDamage(a.sessions, b.sessions) : null),
+    [a, b]
+  );
+
+  // Cumulative RP for both players on every date either of them played
+  const trajectory = useMemo(() => {
+    if (!a || !b) return [];
+    const dates = Array.from(new Set([...a.sessions, ...b.sessions].map((s) => s.date))).sort();
+    const running = { a: 0, b: 0 };
+    return dates.map((date) => {
+      running.a += a.sessions.filter((s) => s.date === date).reduce((sum, s) => sum + s.rp, 0);
+      running.b += b.sessions.filter((s) => s.date === date).reduce((sum, s) => sum + s.rp, 0);
+      return { date: formatShortDate(date), [a.display_name]: running.a, [b.display_name]: running.b };
+    });
+  }, [a, b]);
+
+  if (players.length < 2) return null;
+
+  const rows: { label: string; values: [string, string]; better?: 'high' | 'low'; raw?: [number, number] }[] =
+    summaryA && summaryB
+      ? [
+          {
+            label: 'Damage / game',
+            values: [formatAvgDamage(summaryA.stats.avgDamage), formatAvgDamage(summaryB.stats.avgDamage)],
+            raw: [summaryA.stats.avgDamage, summaryB.stats.avgDamage],
+            better: 'high',
+          },
+          {
+            label: 'Kills / game',
+            values: [formatAvgKills(summaryA.stats.avgKills), formatAvgKills(summaryB.stats.avgKills)],
+            raw: [summaryA.stats.avgKills, summaryB.stats.avgKills],
+            better: 'high',
+          },
+          {
+            label: 'RP / game',
+            values: [summaryA.rpPerGame.toFixed(1), summaryB.rpPerGame.toFixed(1)],
+            raw: [summaryA.rpPerGame, summaryB.rpPerGame],
+            better: 'high',
+          },
+          ...milestoneTiers.map((tier, i) => ({
+            label: `${formatMilestone(tier)}+ game rate`,
+            values: [formatRate(summaryA.milestoneRates[i]), formatRate(summaryB.milestoneRates[i])] as [string, string],
+            raw: [summaryA.milestoneRates[i], summaryB.milestoneRates[i]] as [number, number],
+            better: 'high' as const,
+          })),
+          {
+            label: 'Donut rate',
+            values: [formatRate(summaryA.stats.donutRate), formatRate(summaryB.stats.donutRate)],
+            raw: [summaryA.stats.donutRate, summaryB.stats.donutRate],
+            better: 'low',
+          },
+          {
+            label: 'Games',
+            values: [String(summaryA.stats.games), String(summaryB.stats.games)],
+          },
+        ]
+      : [];
+
+  const leader = (row: (typeof rows)[number]): 0 | 1 | null => {
+    if (!row.raw || !row.better || row.raw[0] === row.raw[1]) return null;
+    const firstWins = row.better === 'high' ? row.raw[0] > row.raw[1] : row.raw[0] < row.raw[1];
+    return firstWins ? 0 : 1;
+  };
+
+  const selectClass =
+    'rounded-xl border border-themed bg-primary px-3 py-2 text-sm text-primary outline-none focus:border-accent';
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+        <div className="section-header mb-0">
+          <div className="indicator" />
+          <div className="title">Head to Head</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={aId} onChange={(e) => setAId(e.target.value)} className={selectClass} style={{ color: COLORS[0] }}>
+            {players.map((p) => (
+              <option key={p.user_id} value={p.user_id} disabled={p.user_id === bId}>{p.display_name}</option>
+            ))}
+          </select>
+          <span className="text-sm text-tertiary">vs</span>
+          <select value={bId} onChange={(e) => setBId(e.target.value)} className={selectClass} style={{ color: COLORS[1] }}>
+            {players.map((p) => (
+              <option key={p.user_id} value={p.user_id} disabled={p.user_id === aId}>{p.display_name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {a && b && summaryA && summaryB && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            {/* Averages and rates */}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-tertiary uppercase tracking-wider">
+                  <th className="text-left py-2 font-medium">Per game</th>
+                  <th className="text-right py-2 font-medium" style={{ color: COLORS[0] }}>{a.display_name}</th>
+                  <th className="text-right py-2 font-medium" style={{ color: COLORS[1] }}>{b.display_name}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const ahead = leader(row);
+                  return (
+                    <tr key={row.label} className="border-t border-themed">
+                      <td className="py-2 text-secondary">{row.label}</td>
+                      {row.values.map((value, i) => (
+                        <td key={i} className={`py-2 text-right tabular-nums ${ahead === i ? 'font-bold text-primary' : 'text-secondary'}`}>
+                          {value}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {/* Out-damaged */}
+            {matchup && (
+              <div className="bg-card rounded-xl p-4 border border-themed">
+                <div className="text-xs text-tertiary uppercase tracking-wider mb-2">
+                  Out-damaged the other · {matchup.shared} shared {matchup.shared === 1 ? 'session' : 'sessions'}
+                </div>
+                {matchup.shared === 0 ? (
+                  <div className="text-sm text-tertiary">No sessions played together yet.</div>
+                ) : (
+                  <div className="flex items-center justify-between text-sm">
+                    <span style={{ color: COLORS[0] }} className="font-bold">{a.display_name} {matchup.aAhead}</span>
+                    {matchup.tied > 0 && <span className="text-tertiary">{matchup.tied} tied</span>}
+                    <span style={{ color: COLORS[1] }} className="font-bold">{matchup.bAhead} {b.display_name}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Record sessions */}
+            <div className="grid grid-cols-2 gap-4">
+              {[{ player: a, summary: summaryA, color: COLORS[0] }, { player: b, summary: summaryB, color: COLORS[1] }].map(
+                ({ player, summary, color }) => (
+                  <div key={player.user_id} className="bg-card rounded-xl p-4 border border-themed text-sm">
+                    <div className="font-semibold mb-2" style={{ color }}>{player.display_name}</div>
+                    {summary.bestRpSession && (
+                      <div className="text-secondary">
+                        Best RP session: <span className="text-primary font-semibold">{summary.bestRpSession.rp > 0 ? '+' : ''}{summary.bestRpSession.rp}</span>
+                        <span className="text-tertiary"> · {formatShortDate(summary.bestRpSession.date)}</span>
+                      </div>
+                    )}
+                    {summary.bestDamageSession && (
+                      <div className="text-secondary">
+                        Best damage session: <span className="text-primary font-semibold">{summary.bestDamageSession.totalDamage.toLocaleString()}</span>
+                        <span className="text-tertiary"> · {formatShortDate(summary.bestDamageSession.date)}</span>
+                      </div>
+                    )}
+                    {RECORD_KEYS.map((key) => {
+                      const record = records[player.user_id]?.records[key];
+                      return record ? (
+                        <div key={key} className="text-xs text-tertiary mt-1">
+                          {RECORD_LABELS[key]}: <span className="text-secondary">{formatRecordValue(record)}</span>
+                        </div>
+                      ) : null;
+                    })}
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+
+          {/* RP trajectories */}
+          <div style={{ width: '100%', height: 360 }}>
+            <ResponsiveContainer>
+              <LineChart data={trajectory} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 11, fill: 'var(--text-tertiary)' }}
+                  axisLine={{ stroke: 'var(--border-primary)' }}
+                  tickLine={{ stroke: 'var(--border-primary)' }}
+                />
+                <YAxis
+                  tick={{ fontSize: 11, fill: 'var(--text-tertiary)' }}
+                  tickFormatter={(v) => (v > 0 ? `+${v}` : String(v))}
+                  axisLine={{ stroke: 'var(--border-primary)' }}
+                  tickLine={{ stroke: 'var(--border-primary)' }}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'var(--bg-card)',
+                    border: '1px solid var(--border-primary)',
+                    borderRadius: '8px',
+                    color: 'var(--text-primary)',
+                  }}
+                  labelStyle={{ color: 'var(--text-secondary)' }}
+                />
+                <Legend />
+                <ReferenceLine y={0} stroke="var(--text-muted)" strokeDasharray="3 3" />
+                {[a, b].map((player, i) => (
+                  <Line
+                    key={player.user_id}
+                    type="monotone"
+                    dataKey={player.display_name}
+                    stroke={COLORS[i]}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { getAccessToken } from '@/lib/auth';
+import { formatAvgPlacement, formatDuration } from '@/lib/stats';
+import { useToast } from '@/components/ToastProvider';
+
+type PastSession = {
+  session_id: string;
+  games: number;
+  wins: number;
+  avg_placement: number;
+  total_rp: number;
+  ended_at: string;
+  duration_seconds: number;
+  roster: { userId: string | null; name: string }[];
+};
+
+function formatFullDate(isoDate: string): string {
+  const date = new Date(isoDate);
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// Ended sessions, newest first, each with a button to post its summary to Discord again
+export default function PastSessions({ sessions }: { sessions: PastSession[] }) {
+  const { success, error: showError, info } = useToast();
+  const [resending, setResending] = useState<string | null>(null);
+
+  if (sessions.length === 0) return null;
+
+  const resend = async (sessionId: string) => {
+    setResending(sessionId);
+    try {
+      const accessToken = await getAccessToken();
+      const res = await fetch('/api/resend-discord', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken ?? ''}`,
+        },
+        body: JSON.stringify({ sessionId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to post to Discord');
+
+      const posts: { label: string; status: string }[] = data.posts ?? [];
+      if (posts.every((p) => p.status === 'sent')) {
+        success('Posted to Discord');
+      } else {
+        info('Discord is busy; the post will go out on the next retry');
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to post to Discord');
+    } finally {
+      setResending(null);
+    }
+  };
+
+  return (
+    <div className="card p-6 mb-8">
+      <div className="section-header mb-4">
+        <div className="indicator" />
+        <div className="title">Past Sessions</div>
+      </div>
+      <div>
+        {[...sessions].reverse().map((s) => (
+          <div key={s.session_id} className="flex flex-wrap items-center justify-between gap-3 py-3 border-b border-themed last:border-b-0">
+            <div className="min-w-0">
+              <div className="text-sm font-semibold text-primary">
+                {formatFullDate(s.ended_at)}
+                <span className="font-normal text-secondary">
+                  {' · '}{s.games} games{' · '}{s.wins} {s.wins === 1 ? 'win' : 'wins'}
+                  {' · '}avg {formatAvgPlacement(Number(s.avg_placement))}
+                  {' · '}{s.total_rp > 0 ? '+' : ''}{s.total_rp} RP
+                  {' · '}{formatDuration(s.duration_seconds)}
+                </span>
+              </div>
+              <div className="text-xs text-tertiary mt-1 truncate">
+                {s.roster.map((p) => p.name).join(', ')}
+              </div>
+            </div>
+            <button
+              onClick={() => resend(s.session_id)}
+              disabled={resending !== null}
+              className="btn-secondary"
+            >
+              {resending === s.session_id ? 'Posting...' : 'Resend to Discord'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
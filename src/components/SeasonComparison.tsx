@@ -0,0 +1,93 @@
+'use client';
+
+import type { Season } from '@/lib/seasons';
+import { deriveStats, formatAvgDamage, formatAvgKills, type StatTotals } from '@/lib/stats';
+
+/** One player's totals for one season */
+export type SeasonResult = StatTotals & {
+  userId: string;
+  seasonId: string;
+  totalRP: number;
+  /** Ranked RP the player started the season on */
+  startingRp: number;
+};
+
+type SeasonComparisonProps = {
+  seasons: Season[];
+  players: { user_id: string; display_name: string }[];
+  results: SeasonResult[];
+};
+
+function Change({ value, previous }: { value: number; previous: number | undefined }) {
+  if (previous === undefined || value === previous) return null;
+  const up = value > previous;
+  return <span className={`ml-1 text-xs ${up ? 'text-success' : 'text-error'}`}>{up ? '▲' : '▼'}</span>;
+}
+
+export default function SeasonComparison({ seasons, players, results }: SeasonComparisonProps) {
+  const played = results.filter((r) => r.games > 0 && players.some((p) => p.user_id === r.userId));
+  if (new Set(played.map((r) => r.seasonId)).size < 2) return null;
+
+  const ordered = [...seasons].sort((a, b) => a.season_number - b.season_number);
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="section-header mb-4">
+        <div className="indicator" />
+        <div className="title">Season over Season</div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {players.map((player) => {
+          const rows = ordered.flatMap((season) => {
+            const result = played.find((r) => r.userId === player.user_id && r.seasonId === season.id);
+            return result ? [{ season, result, stats: deriveStats(result) }] : [];
+          });
+          if (rows.length === 0) return null;
+
+          return (
+            <div key={player.user_id} className="bg-card rounded-xl p-4 border border-themed">
+              <div className="text-sm font-semibold text-primary mb-2">{player.display_name}</div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-tertiary uppercase tracking-wider">
+                    <th className="text-left py-1 font-medium">Season</th>
+                    <th className="text-right py-1 font-medium">Games</th>
+                    <th className="text-right py-1 font-medium">Dmg / game</th>
+                    <th className="text-right py-1 font-medium">Kills / game</th>
+                    <th className="text-right py-1 font-medium">Final RP</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ season, result, stats }, i) => {
+                    const prev = rows[i - 1];
+                    return (
+                      <tr key={season.id} className="border-t border-themed">
+                        <td className="py-1.5 text-secondary">S{season.season_number}</td>
+                        <td className="py-1.5 text-right tabular-nums text-secondary">{stats.games}</td>
+                        <td className="py-1.5 text-right tabular-nums text-primary">
+                          {formatAvgDamage(stats.avgDamage)}
+                          <Change value={stats.avgDamage} previous={prev?.stats.avgDamage} />
+                        </td>
+                        <td className="py-1.5 text-right tabular-nums text-primary">
+                          {formatAvgKills(stats.avgKills)}
+                          <Change value={stats.avgKills} previous={prev?.stats.avgKills} />
+                        </td>
+                        <td className="py-1.5 text-right tabular-nums text-primary">
+                          {(result.startingRp + result.totalRP).toLocaleString()}
+                          <div className={`text-xs ${result.totalRP >= 0 ? 'text-success' : 'text-error'}`}>
+                            {result.totalRP > 0 ? '+' : ''}{result.totalRP.toLocaleString()}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import type { Season } from '@/lib/seasons';
+
+type SeasonPickerProps = {
+  seasons: Season[];
+  value: string;
+  onChange: (season: Season) => void;
+};
+
+export default function SeasonPicker({ seasons, value, onChange }: SeasonPickerProps) {
+  if (seasons.length < 2) return null;
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => {
+        const season = seasons.find((s) => s.id === e.target.value);
+        if (season) onChange(season);
+      }}
+      aria-label="Season"
+      className="rounded-xl border border-themed bg-card px-3 py-2 text-sm font-medium text-primary outline-none focus:border-accent cursor-pointer"
+    >
+      {seasons.map((s) => (
+        <option key={s.id} value={s.id}>
+          Season {s.season_number}{s.is_active ? ' (current)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+}
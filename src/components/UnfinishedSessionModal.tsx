@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+
+type UnfinishedSessionModalProps = {
+  isOpen: boolean;
+  lastActive: string;
+  onClose: () => void;
+  onFinalize: () => Promise<void>;
+  onDiscard: () => Promise<void>;
+};
+
+// "yesterday", "today" or a short date for when the session was last used
+function describeDay(iso: string): string {
+  const day = new Date(iso);
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+
+  if (day.toDateString() === today.toDateString()) return 'earlier today';
+  if (day.toDateString() === yesterday.toDateString()) return 'yesterday';
+  return `on ${day.toLocaleDateString()}`;
+}
+
+export default function UnfinishedSessionModal({
+  isOpen,
+  lastActive,
+  onClose,
+  onFinalize,
+  onDiscard,
+}: UnfinishedSessionModalProps) {
+  const [action, setAction] = useState<'finalize' | 'discard' | null>(null);
+
+  if (!isOpen) return null;
+
+  const run = async (next: 'finalize' | 'discard') => {
+    setAction(next);
+    try {
+      await (next === 'finalize' ? onFinalize() : onDiscard());
+    } finally {
+      setAction(null);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={action ? undefined : onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-primary text-center mb-2">
+          Unfinished Session
+        </h2>
+
+        <p className="text-secondary text-center text-sm mb-6">
+          You have an unfinished session from {describeDay(lastActive)}.
+          Finalize it to save the stats to the season, or discard it.
+        </p>
+
+        <div className="flex flex-col gap-3">
+          <button
+            onClick={() => run('finalize')}
+            disabled={action !== null}
+            className="btn-success w-full py-3"
+          >
+            {action === 'finalize' ? 'Saving...' : 'Finalize Session'}
+          </button>
+
+          <button
+            onClick={() => run('discard')}
+            disabled={action !== null}
+            className="btn-danger w-full py-3"
+          >
+            {action === 'discard' ? 'Discarding...' : 'Discard Session'}
+          </button>
+
+          <button
+            onClick={onClose}
+            disabled={action !== null}
+            className="btn-secondary w-full py-3"
+          >
+            Not Now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -112,6 +112,16 @@ export async function getCurrentUserId(): Promise<string | null> {
   return session?.user?.id ?? null;
 }
 
+/**
+ * Get the current session's access token (for authenticating API route calls)
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.access_token ?? null;
+}
+
 /**
  * Fetch current user's profile
  */
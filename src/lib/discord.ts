@@ -0,0 +1,520 @@
+// Discord webhook messages. Session summaries are sent as one embed (colored by
+// squad RP, a field per player) and fall back to plain text when the embed
+// would break Discord's size limits. The wording comes from an editable
+// template (`discord_templates`), rendered with `renderTemplate`. Each post goes
+// to the destinations (`discord_destinations`) that receive its event.
+
+import type { SessionDoc } from '@/lib/sessionDoc';
+import { formatMilestone } from '@/lib/milestones';
+import { RECORD_LABELS, formatRecordValue, type PersonalRecord } from '@/lib/records';
+import {
+  deriveStats,
+  formatAvgDamage,
+  formatAvgKills,
+  formatAvgPlacement,
+  perGame,
+  type WeeklyDigest,
+} from '@/lib/stats';
+import { renderTemplate } from '@/lib/templates';
+import { formatWeekLabel } from '@/lib/weeks';
+
+export type DiscordEmbedField = {
+  name: string;
+  value: string;
+  inline?: boolean;
+};
+
+export type DiscordEmbed = {
+  title?: string;
+  description?: string;
+  color?: number;
+  fields?: DiscordEmbedField[];
+  footer?: { text: string };
+  timestamp?: string;
+};
+
+/** Body of a webhook post */
+export type DiscordMessage = {
+  content?: string;
+  embeds?: DiscordEmbed[];
+};
+
+/** What a destination can receive */
+export type DiscordEvent = 'session_end' | 'weekly_digest' | 'records';
+
+export const DISCORD_EVENTS: { key: DiscordEvent; label: string; description: string }[] = [
+  { key: 'session_end', label: 'Session end', description: 'Summary when a session ends' },
+  { key: 'weekly_digest', label: 'Weekly digest', description: "Monday's leaderboard for the week before" },
+  { key: 'records', label: 'Records', description: 'Personal records broken in a session' },
+];
+
+/** A webhook posts can be sent to, as shown in the browser */
+export type DiscordDestination = {
+  id: string;
+  label: string;
+  /** The webhook URL with its token hidden; the full URL never leaves the server */
+  webhook_hint: string;
+  events: DiscordEvent[];
+  updated_at: string;
+};
+
+const DISCORD_WEBHOOK_PATTERN = /^https:\/\/(?:discord|discordapp)\.com\/api\/webhooks\/\d+\/[\w-]+$/;
+
+/**
+ * Whether the server may post to this URL. Only Discord webhooks are allowed,
+ * except in development, where any http(s) URL works (e.g. the fake webhook script).
+ */
+export function isAllowedWebhookUrl(url: string): boolean {
+  if (DISCORD_WEBHOOK_PATTERN.test(url)) return true;
+  return process.env.NODE_ENV === 'development' && /^https?:\/\/\S+$/.test(url);
+}
+
+/**
+ * A webhook URL with all but the end of its token hidden
+ */
+export function maskWebhookUrl(url: string): string {
+  return url.replace(/[^/]+$/, (token) => `••••${token.slice(-4)}`);
+}
+
+/** Discord's documented limits, in characters unless noted */
+export const DISCORD_LIMITS = {
+  content: 2000,
+  title: 256,
+  description: 4096,
+  /** Fields per embed */
+  fields: 25,
+  fieldName: 256,
+  fieldValue: 1024,
+  footer: 2048,
+  /** Title, description, field names and values and footer combined */
+  embedTotal: 6000,
+};
+
+export const EMBED_COLORS = {
+  positive: 0x10b981,
+  negative: 0xe03a3e,
+};
+
+/** What a session summary is built from */
+export type SessionSummaryInput = {
+  doc: SessionDoc;
+  seasonNumber: number;
+  /** Reposted after the session was reopened and corrected */
+  amended: boolean;
+  endedAt: string;
+  newRecords: { name: string; record: PersonalRecord }[];
+};
+
+/** Wording of a session summary; each part is a template (see `lib/templates.ts`) */
+export type SessionTemplate = {
+  title: string;
+  /** Embed description: squad totals, MVP, records */
+  description: string;
+  /** One embed field per player, rendered with `player` in scope */
+  player: string;
+  footer: string;
+};
+
+export const SESSION_TEMPLATE_KEY = 'session_summary';
+
+export const DEFAULT_SESSION_TEMPLATE: SessionTemplate = {
+  title: 'Apex Session Summary{#if session.corrected} (Corrected){/if}',
+  description: [
+    'Games: {squad.games} | Wins: {squad.wins} | Avg Placement: {squad.avgPlacement}',
+    '**Squad RP: {squad.rp}**',
+    '{#if squad.mvp}',
+    '',
+    '👑 **MVP: {squad.mvp}** — {squad.mvpDamage} damage, {squad.mvpKills} kills',
+    '{/if}',
+    '{#if records}',
+    '',
+    '**🏆 New Personal Records**',
+    '{#each records}',
+    '• {record.player} — {record.label}: {record.value}',
+    '{/each}',
+    '{/if}',
+  ].join('\n'),
+  player: [
+    'Damage: **{player.damage}** (avg {player.avgDamage})',
+    'Kills: **{player.kills}**',
+    '{#each player.milestones as m}',
+    '{m.label} games: {m.games}',
+    '{/each}',
+    '{#if player.donuts > 0}',
+    'Donuts: {player.donuts}',
+    '{/if}',
+    'RP: **{player.rp}**',
+  ].join('\n'),
+  footer: 'Season {season.number} • {session.date}',
+};
+
+/** Placeholders available to session templates, for the editor */
+export const SESSION_TEMPLATE_FIELDS: { path: string; description: string }[] = [
+  { path: 'season.number', description: 'Season number' },
+  { path: 'session.date', description: 'Date the session ended' },
+  { path: 'session.corrected', description: 'Set when reposting a reopened session' },
+  { path: 'squad.games', description: 'Games played' },
+  { path: 'squad.wins', description: 'Wins' },
+  { path: 'squad.avgPlacement', description: 'Average placement' },
+  { path: 'squad.rp', description: 'Squad RP change, signed' },
+  { path: 'squad.mvp', description: 'MVP name (most damage)' },
+  { path: 'squad.mvpDamage', description: "MVP's damage" },
+  { path: 'squad.mvpKills', description: "MVP's kills" },
+  { path: 'players', description: 'List: {#each players} … {/each}' },
+  { path: 'player.rank', description: 'Position in the player list' },
+  { path: 'player.name', description: 'Player name' },
+  { path: 'player.isMvp', description: 'Set for the MVP' },
+  { path: 'player.games', description: 'Games played' },
+  { path: 'player.damage', description: 'Total damage' },
+  { path: 'player.avgDamage', description: 'Damage per game' },
+  { path: 'player.kills', description: 'Total kills' },
+  { path: 'player.avgKills', description: 'Kills per game' },
+  { path: 'player.donuts', description: 'Donut games' },
+  { path: 'player.rp', description: 'RP change, signed' },
+  { path: 'player.milestones', description: 'List of { label, games } per damage tier' },
+  { path: 'records', description: 'List of new records: { player, label, value }' },
+];
+
+function signed(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toLocaleString()}`;
+}
+
+function formatSessionDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Fill any missing part of a stored template from the default
+ */
+export function normalizeSessionTemplate(input: unknown): SessionTemplate {
+  if (typeof input !== 'object' || input === null) return DEFAULT_SESSION_TEMPLATE;
+  const stored = input as Partial<Record<keyof SessionTemplate, unknown>>;
+  const part = (key: keyof SessionTemplate) =>
+    typeof stored[key] === 'string' ? (stored[key] as string) : DEFAULT_SESSION_TEMPLATE[key];
+  return {
+    title: part('title'),
+    description: part('description'),
+    player: part('player'),
+    footer: part('footer'),
+  };
+}
+
+/**
+ * Characters an embed counts against the 6000 character total
+ */
+export function embedSize(embed: DiscordEmbed): number {
+  return (
+    (embed.title?.length ?? 0) +
+    (embed.description?.length ?? 0) +
+    (embed.footer?.text.length ?? 0) +
+    (embed.fields ?? []).reduce((s, f) => s + f.name.length + f.value.length, 0)
+  );
+}
+
+/**
+ * Whether an embed is within every Discord limit
+ */
+export function embedFits(embed: DiscordEmbed): boolean {
+  const fields = embed.fields ?? [];
+  return (
+    (embed.title?.length ?? 0) <= DISCORD_LIMITS.title &&
+    (embed.description?.length ?? 0) <= DISCORD_LIMITS.description &&
+    (embed.footer?.text.length ?? 0) <= DISCORD_LIMITS.footer &&
+    fields.length <= DISCORD_LIMITS.fields &&
+    fields.every(
+      (f) => f.name.length <= DISCORD_LIMITS.fieldName && f.value.length <= DISCORD_LIMITS.fieldValue
+    ) &&
+    embedSize(embed) <= DISCORD_LIMITS.embedTotal
+  );
+}
+
+/**
+ * Cut text to Discord's message limit, marking that it was cut
+ */
+export function truncateContent(text: string, limit = DISCORD_LIMITS.content): string {
+  return text.length <= limit ? text : `${text.slice(0, limit - 1)}…`;
+}
+
+/** Embeds Discord accepts in one message */
+const MAX_EMBEDS = 10;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+/**
+ * A webhook body built from `input`, or null when it is not a message within
+ * Discord's limits. Only content and embed text carry over, so callers can't
+ * set a username, avatar or mentions.
+ */
+export function parseDiscordMessage(input: unknown): DiscordMessage | null {
+  if (!input || typeof input !== 'object') return null;
+  const { content, embeds } = input as Record<string, unknown>;
+
+  if (content !== undefined && !(isString(content) && content.length <= DISCORD_LIMITS.content)) {
+    return null;
+  }
+  if (embeds !== undefined && !(Array.isArray(embeds) && embeds.length <= MAX_EMBEDS)) return null;
+
+  const parsed: DiscordEmbed[] = [];
+  for (const raw of (embeds as unknown[] | undefined) ?? []) {
+    if (!raw || typeof raw !== 'object') return null;
+    const e = raw as Record<string, unknown>;
+    const fields = e.fields ?? [];
+    const footer = e.footer as Record<string, unknown> | undefined;
+    if (
+      (e.title !== undefined && !isString(e.title)) ||
+      (e.description !== undefined && !isString(e.description)) ||
+      (e.color !== undefined && !(Number.isInteger(e.color) && (e.color as number) >= 0 && (e.color as number) <= 0xffffff)) ||
+      (e.timestamp !== undefined && !(isString(e.timestamp) && !Number.isNaN(Date.parse(e.timestamp)))) ||
+      (footer !== undefined && !(footer && typeof footer === 'object' && isString(footer.text))) ||
+      !Array.isArray(fields) ||
+      !fields.every(
+        (f) =>
+          f &&
+          typeof f === 'object' &&
+          isString(f.name) &&
+          isString(f.value) &&
+          (f.inline === undefined || typeof f.inline === 'boolean')
+      )
+    ) {
+      return null;
+    }
+
+    const embed: DiscordEmbed = {
+      ...(e.title !== undefined && { title: e.title as string }),
+      ...(e.description !== undefined && { description: e.description as string }),
+      ...(e.color !== undefined && { color: e.color as number }),
+      ...(fields.length > 0 && {
+        fields: (fields as DiscordEmbedField[]).map(({ name, value, inline }) => ({
+          name,
+          value,
+          ...(inline !== undefined && { inline }),
+        })),
+      }),
+      ...(footer !== undefined && { footer: { text: footer.text as string } }),
+      ...(e.timestamp !== undefined && { timestamp: e.timestamp as string }),
+    };
+    if (!embedFits(embed)) return null;
+    parsed.push(embed);
+  }
+
+  if (!content && parsed.length === 0) return null;
+  // The character total applies to all of a message's embeds together
+  if (parsed.reduce((sum, e) => sum + embedSize(e), 0) > DISCORD_LIMITS.embedTotal) return null;
+  return {
+    ...(content && { content: content as string }),
+    ...(parsed.length > 0 && { embeds: parsed }),
+  };
+}
+
+/**
+ * The session's MVP: most damage, then most kills. Null when nobody played.
+ */
+export function sessionMvp(doc: SessionDoc): SessionDoc['players'][number] | null {
+  return doc.players
+    .filter((p) => p.games > 0)
+    .reduce<SessionDoc['players'][number] | null>(
+      (best, p) =>
+        !best ||
+        p.totalDamage > best.totalDamage ||
+        (p.totalDamage === best.totalDamage && p.totalKills > best.totalKills)
+          ? p
+          : best,
+      null
+    );
+}
+
+/**
+ * Values a session template can use, formatted for display
+ */
+export function sessionTemplateContext(input: SessionSummaryInput): Record<string, unknown> {
+  const { doc, seasonNumber, amended, endedAt, newRecords } = input;
+  const mvp = sessionMvp(doc);
+
+  return {
+    season: { number: seasonNumber },
+    session: { date: formatSessionDate(endedAt), corrected: amended },
+    squad: {
+      games: doc.sessionGames,
+      wins: doc.wins,
+      avgPlacement: formatAvgPlacement(perGame(doc.totalPlacement, doc.sessionGames)),
+      rp: signed(doc.players.reduce((acc, p) => acc + p.totalRP, 0)),
+      mvp: mvp ? mvp.name || '(no name)' : '',
+      mvpDamage: mvp?.totalDamage.toLocaleString() ?? '',
+      mvpKills: mvp?.totalKills ?? '',
+    },
+    players: doc.players.map((p, i) => {
+      const { avgDamage, avgKills } = deriveStats(p);
+      return {
+        rank: i + 1,
+        name: p.name || '(no name)',
+        isMvp: p === mvp,
+        games: p.games,
+        damage: p.totalDamage.toLocaleString(),
+        avgDamage: formatAvgDamage(avgDamage),
+        kills: p.totalKills,
+        avgKills: formatAvgKills(avgKills),
+        donuts: p.donuts,
+        rp: signed(p.totalRP),
+        milestones: doc.milestoneTiers.map((t) => ({
+          label: formatMilestone(t),
+          games: p.milestones[t] ?? 0,
+        })),
+      };
+    }),
+    records: newRecords.map(({ name, record }) => ({
+      player: name || '(no name)',
+      label: RECORD_LABELS[record.key],
+      value: formatRecordValue(record),
+    })),
+  };
+}
+
+// Discord rejects empty field values
+const EMPTY_FIELD = '\u200b';
+
+/**
+ * Session summary as one embed
+ */
+export function sessionSummaryEmbed(
+  input: SessionSummaryInput,
+  template: SessionTemplate = DEFAULT_SESSION_TEMPLATE
+): DiscordEmbed {
+  const context = sessionTemplateContext(input);
+  const players = context.players as { name: string; rank: number; isMvp: boolean }[];
+  const totalRP = input.doc.players.reduce((acc, p) => acc + p.totalRP, 0);
+  const title = renderTemplate(template.title, context);
+  const description = renderTemplate(template.description, context);
+  const footer = renderTemplate(template.footer, context);
+
+  return {
+    ...(title && { title }),
+    ...(description && { description }),
+    color: totalRP >= 0 ? EMBED_COLORS.positive : EMBED_COLORS.negative,
+    fields: players.map((player) => ({
+      name: `#${player.rank} ${player.name}${player.isMvp ? ' 👑' : ''}`,
+      value: renderTemplate(template.player, { ...context, player }) || EMPTY_FIELD,
+      inline: true,
+    })),
+    ...(footer && { footer: { text: footer } }),
+    timestamp: input.endedAt,
+  };
+}
+
+/**
+ * An embed as markdown text, for when it is too large to send as an embed
+ */
+export function embedToText(embed: DiscordEmbed): string {
+  const parts = [
+    embed.title && `**${embed.title}**`,
+    embed.description,
+    ...(embed.fields ?? []).map((f) => `**${f.name}**\n${f.value === EMPTY_FIELD ? '' : f.value}`),
+    embed.footer?.text,
+  ];
+  return parts.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Webhook body for a session summary: the embed when it fits, plain text otherwise
+ */
+export function sessionSummaryMessage(
+  input: SessionSummaryInput,
+  template: SessionTemplate = DEFAULT_SESSION_TEMPLATE
+): DiscordMessage {
+  const embed = sessionSummaryEmbed(input, template);
+  if (embedFits(embed)) return { embeds: [embed] };
+  return { content: truncateContent(embedToText(embed)) };
+}
+
+/** Wording of the weekly digest (not editable yet) */
+export const DEFAULT_DIGEST_TEMPLATE = {
+  title: 'Weekly Leaderboard — {week.label}',
+  description: [
+    '**RP Gained**',
+    '{#each players}',
+    '{player.rank}. {player.name} — **{player.rp}** ({player.games} games)',
+    '{/each}',
+    '',
+    '💥 **Top Damage:** {topDamage.name} — {topDamage.damage} ({topDamage.avgDamage} per game)',
+    '{#if mostDonuts}',
+    '🍩 **Most Donuts:** {mostDonuts.name} — {mostDonuts.donuts}',
+    '{/if}',
+    '{#if bestSession}',
+    '🏆 **Best Session:** {bestSession.date} — {bestSession.rp} squad RP ({bestSession.players})',
+    '{/if}',
+  ].join('\n'),
+  footer: 'Week of {week.start}',
+};
+
+/**
+ * Webhook body for the weekly digest
+ */
+export function weeklyDigestMessage(digest: WeeklyDigest): DiscordMessage {
+  const player = (p: WeeklyDigest['players'][number] | null) =>
+    p && {
+      name: p.name,
+      games: p.games,
+      rp: signed(p.totalRP),
+      damage: p.totalDamage.toLocaleString(),
+      avgDamage: formatAvgDamage(p.avgDamage),
+      donuts: p.donuts,
+    };
+  const best = digest.bestSession;
+  const context = {
+    week: { label: formatWeekLabel(digest.weekStart), start: digest.weekStart, end: digest.weekEnd },
+    players: digest.players.map((p, i) => ({ ...player(p), rank: i + 1 })),
+    topDamage: player(digest.topDamage),
+    mostDonuts: player(digest.mostDonuts),
+    bestSession: best && {
+      date: formatSessionDate(`${best.date}T12:00:00Z`),
+      rp: signed(best.totalRP),
+      players: best.players.map((p) => `${p.name} ${signed(p.rp)}`).join(', '),
+    },
+  };
+  const totalRP = digest.players.reduce((sum, p) => sum + p.totalRP, 0);
+
+  const embed: DiscordEmbed = {
+    title: renderTemplate(DEFAULT_DIGEST_TEMPLATE.title, context),
+    description: renderTemplate(DEFAULT_DIGEST_TEMPLATE.description, context),
+    color: totalRP >= 0 ? EMBED_COLORS.positive : EMBED_COLORS.negative,
+    footer: { text: renderTemplate(DEFAULT_DIGEST_TEMPLATE.footer, context) },
+  };
+  if (embedFits(embed)) return { embeds: [embed] };
+  return { content: truncateContent(embedToText(embed)) };
+}
+
+/**
+ * Webhook body announcing the personal records broken in a session
+ */
+export function recordsMessage(input: SessionSummaryInput): DiscordMessage {
+  const lines = input.newRecords.map(
+    ({ name, record }) =>
+      `**${name || '(no name)'}** — ${RECORD_LABELS[record.key]}: **${formatRecordValue(record)}**`
+  );
+  const embed: DiscordEmbed = {
+    title: `🏅 New Personal Records — Season ${input.seasonNumber}`,
+    description: lines.join('\n'),
+    color: EMBED_COLORS.positive,
+    footer: { text: formatSessionDate(input.endedAt) },
+    timestamp: input.endedAt,
+  };
+  if (embedFits(embed)) return { embeds: [embed] };
+  return { content: truncateContent(embedToText(embed)) };
+}
+
+/**
+ * Webhook body for checking a destination is set up
+ */
+export function testMessage(destination: Pick<DiscordDestination, 'label' | 'events'>): DiscordMessage {
+  const events = DISCORD_EVENTS.filter((e) => destination.events.includes(e.key)).map((e) => e.label);
+  return {
+    content: truncateContent(
+      `✅ Test post for **${destination.label}**. ` +
+        (events.length > 0 ? `This channel receives: ${events.join(', ')}.` : 'This channel receives no events yet.')
+    ),
+  };
+}
@@ -0,0 +1,75 @@
+// Managing Discord destinations from the browser. Webhook URLs are secrets, so
+// edits go through /api/discord-destinations and the browser only ever sees a
+// masked URL; sending happens server-side (lib/discordOutbox.ts).
+
+import { supabase } from '@/lib/supabase/client';
+import { getAccessToken } from '@/lib/auth';
+import type { DiscordDestination, DiscordEvent } from '@/lib/discord';
+
+export type DestinationInput = {
+  label: string;
+  /** Blank when editing keeps the current URL */
+  webhook_url: string;
+  events: DiscordEvent[];
+};
+
+async function callApi<T>(method: string, body?: unknown): Promise<T> {
+  const accessToken = await getAccessToken();
+  if (!accessToken) throw new Error('Must be logged in to edit Discord destinations');
+
+  const res = await fetch('/api/discord-destinations', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Discord destinations request failed');
+  return data as T;
+}
+
+/**
+ * All destinations, oldest first
+ */
+export async function getDestinations(): Promise<DiscordDestination[]> {
+  const { destinations } = await callApi<{ destinations: DiscordDestination[] }>('GET');
+  return destinations;
+}
+
+/**
+ * Destinations that receive any of `events`, without their webhook URLs
+ */
+export async function getDestinationsFor(
+  events: DiscordEvent[]
+): Promise<Pick<DiscordDestination, 'id' | 'label' | 'events'>[]> {
+  const { data, error } = await supabase
+    .from('discord_destinations')
+    .select('id, label, events')
+    .overlaps('events', events)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data as Pick<DiscordDestination, 'id' | 'label' | 'events'>[]) ?? [];
+}
+
+/**
+ * Add a destination, or update it when `id` is given
+ */
+export async function saveDestination(input: DestinationInput, id?: string): Promise<DiscordDestination> {
+  const { destination } = await callApi<{ destination: DiscordDestination }>(id ? 'PUT' : 'POST', {
+    id,
+    label: input.label,
+    webhookUrl: input.webhook_url,
+    events: input.events,
+  });
+  return destination;
+}
+
+/**
+ * Remove a destination; posts still queued for it are marked failed
+ */
+export async function deleteDestination(id: string): Promise<void> {
+  await callApi('DELETE', { id });
+}
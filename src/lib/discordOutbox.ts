@@ -0,0 +1,344 @@
+// Reliable Discord delivery for the API routes. Every post goes into
+// `discord_posts` as pending, then is sent; a 429 is retried after Discord's
+// `retry_after`, other failures back off, and whatever is still pending is
+// picked up by /api/discord-outbox. Each post goes to one destination
+// (`discord_destinations`), or to DISCORD_WEBHOOK_URL when it has none.
+// Takes the routes' service-role client.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  SESSION_TEMPLATE_KEY,
+  isAllowedWebhookUrl,
+  normalizeSessionTemplate,
+  sessionSummaryMessage,
+  type DiscordEvent,
+  type DiscordMessage,
+  type SessionSummaryInput,
+} from '@/lib/discord';
+
+export type DiscordPostStatus = 'pending' | 'sent' | 'failed';
+
+export type DiscordPostKind = 'session_summary' | 'records' | 'weekly_digest' | 'test' | 'custom';
+
+export type DiscordPost = {
+  id: string;
+  session_id: string | null;
+  destination_id: string | null;
+  kind: DiscordPostKind;
+  payload: DiscordMessage;
+  status: DiscordPostStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+};
+
+/** Where a post goes; a null id is the DISCORD_WEBHOOK_URL fallback */
+export type DiscordTarget = { id: string | null; label: string };
+
+/** A post to one destination, as returned by `postToDestinations` */
+export type DiscordPostResult = {
+  id: string;
+  destinationId: string | null;
+  label: string;
+  status: DiscordPostStatus;
+};
+
+type NewDiscordPost = {
+  kind: DiscordPostKind;
+  payload: DiscordMessage;
+  sessionId?: string | null;
+  destinationId?: string | null;
+};
+
+export type WebhookResult =
+  | { ok: true }
+  | { ok: false; retryable: boolean; retryAfterMs: number | null; error: string };
+
+/** Attempts before a post is marked failed */
+export const MAX_ATTEMPTS = 5;
+
+// Waits up to this long inside a request; longer waits are left to the next outbox run
+const MAX_INLINE_WAIT_MS = 5000;
+
+// How long a sender holds a post before another run may pick it up
+const CLAIM_MS = 2 * 60 * 1000;
+
+/**
+ * Delay before retry number `attempts` when Discord gave no retry_after
+ */
+export function backoffMs(attempts: number): number {
+  return Math.min(30_000 * 2 ** Math.max(0, attempts - 1), 60 * 60 * 1000);
+}
+
+/**
+ * POST a message to a webhook, reading Discord's rate-limit response on a 429
+ */
+export async function sendToWebhook(webhookUrl: string, message: DiscordMessage): Promise<WebhookResult> {
+  let res: Response;
+  try {
+    res = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+  } catch (err) {
+    return { ok: false, retryable: true, retryAfterMs: null, error: err instanceof Error ? err.message : 'Network error' };
+  }
+
+  if (res.ok) return { ok: true };
+
+  const text = await res.text();
+  if (res.status === 429) {
+    // Discord sends retry_after (seconds) in the body and Retry-After as a header
+    let seconds = Number(res.headers.get('retry-after'));
+    try {
+      const body = JSON.parse(text) as { retry_after?: number };
+      if (typeof body.retry_after === 'number') seconds = body.retry_after;
+    } catch {
+      // Not JSON; keep the header value
+    }
+    return {
+      ok: false,
+      retryable: true,
+      retryAfterMs: Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds * 1000) : null,
+      error: 'Rate limited by Discord',
+    };
+  }
+
+  return {
+    ok: false,
+    // Client errors (bad payload, deleted webhook) won't succeed on a retry
+    retryable: res.status >= 500,
+    retryAfterMs: null,
+    error: `Discord returned ${res.status}: ${text.slice(0, 200)}`,
+  };
+}
+
+/**
+ * Destinations that receive an event, optionally narrowed to `onlyIds`.
+ * While none are set up, DISCORD_WEBHOOK_URL receives session summaries and digests.
+ */
+export async function destinationsFor(
+  supabase: SupabaseClient,
+  event: DiscordEvent,
+  onlyIds?: string[]
+): Promise<DiscordTarget[]> {
+  const { data, error } = await supabase
+    .from('discord_destinations')
+    .select('id, label, events')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  if (!data || data.length === 0) {
+    return process.env.DISCORD_WEBHOOK_URL && event !== 'records'
+      ? [{ id: null, label: 'Discord' }]
+      : [];
+  }
+
+  return data
+    .filter((d) => (d.events as DiscordEvent[]).includes(event))
+    .filter((d) => !onlyIds || onlyIds.includes(d.id))
+    .map((d) => ({ id: d.id as string, label: d.label as string }));
+}
+
+// The webhook a post is sent to, or null when it no longer has a usable one
+async function webhookUrlFor(supabase: SupabaseClient, destinationId: string | null): Promise<string | null> {
+  if (!destinationId) return process.env.DISCORD_WEBHOOK_URL ?? null;
+
+  const { data, error } = await supabase
+    .from('discord_destinations')
+    .select('webhook_url')
+    .eq('id', destinationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  // Checked again here so a URL stored some other way can't point the server elsewhere
+  return data && isAllowedWebhookUrl(data.webhook_url) ? data.webhook_url : null;
+}
+
+/**
+ * Add a post to the outbox as pending
+ */
+export async function enqueueDiscordPost(supabase: SupabaseClient, post: NewDiscordPost): Promise<string> {
+  const { data, error } = await supabase
+    .from('discord_posts')
+    .insert({
+      kind: post.kind,
+      payload: post.payload,
+      session_id: post.sessionId ?? null,
+      destination_id: post.destinationId ?? null,
+      status: 'pending',
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id as string;
+}
+
+// Take a pending post that is due, so concurrent runs don't send it twice
+async function claimPost(supabase: SupabaseClient, id: string): Promise<DiscordPost | null> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('discord_posts')
+    .update({
+      next_attempt_at: new Date(now.getTime() + CLAIM_MS).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}`)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as DiscordPost | null;
+}
+
+/**
+ * Send one pending post, retrying in place for short rate limits.
+ * Returns the post's status afterwards; a post that is not due (or is being
+ * sent by another run) is left alone and reported as pending.
+ */
+export async function deliverDiscordPost(supabase: SupabaseClient, id: string): Promise<DiscordPostStatus> {
+  const post = await claimPost(supabase, id);
+  if (!post) {
+    const { data } = await supabase.from('discord_posts').select('status').eq('id', id).maybeSingle();
+    return (data?.status as DiscordPostStatus | undefined) ?? 'failed';
+  }
+
+  const webhookUrl = await webhookUrlFor(supabase, post.destination_id);
+  if (!webhookUrl) {
+    await supabase
+      .from('discord_posts')
+      .update({
+        status: 'failed',
+        last_error: 'Discord webhook not configured',
+        next_attempt_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+    return 'failed';
+  }
+
+  let attempts = post.attempts;
+  for (;;) {
+    const result = await sendToWebhook(webhookUrl, post.payload);
+    attempts++;
+    const now = new Date();
+
+    if (result.ok) {
+      await supabase
+        .from('discord_posts')
+        .update({
+          status: 'sent',
+          attempts,
+          sent_at: now.toISOString(),
+          next_attempt_at: null,
+          last_error: null,
+          updated_at: now.toISOString(),
+        })
+        .eq('id', id);
+      return 'sent';
+    }
+
+    const wait = result.retryAfterMs ?? backoffMs(attempts);
+    const status: DiscordPostStatus =
+      !result.retryable || attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+
+    if (status === 'pending' && wait <= MAX_INLINE_WAIT_MS) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+      continue;
+    }
+
+    console.error(`Discord post ${id} attempt ${attempts} failed:`, result.error);
+    await supabase
+      .from('discord_posts')
+      .update({
+        status,
+        attempts,
+        last_error: result.error,
+        next_attempt_at: status === 'pending' ? new Date(now.getTime() + wait).toISOString() : null,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', id);
+    return status;
+  }
+}
+
+/**
+ * Queue a post and try to send it straight away
+ */
+export async function postToDiscord(
+  supabase: SupabaseClient,
+  post: NewDiscordPost
+): Promise<{ id: string; status: DiscordPostStatus }> {
+  const id = await enqueueDiscordPost(supabase, post);
+  return { id, status: await deliverDiscordPost(supabase, id) };
+}
+
+/**
+ * Queue the same post for each destination and try to send them
+ */
+export async function postToDestinations(
+  supabase: SupabaseClient,
+  targets: DiscordTarget[],
+  post: Omit<NewDiscordPost, 'destinationId'>
+): Promise<DiscordPostResult[]> {
+  const results: DiscordPostResult[] = [];
+  for (const target of targets) {
+    const { id, status } = await postToDiscord(supabase, { ...post, destinationId: target.id });
+    results.push({ id, destinationId: target.id, label: target.label, status });
+  }
+  return results;
+}
+
+/**
+ * Send pending posts that are due, oldest first
+ */
+export async function deliverDuePosts(
+  supabase: SupabaseClient,
+  limit = 10
+): Promise<Record<DiscordPostStatus, number>> {
+  const { data, error } = await supabase
+    .from('discord_posts')
+    .select('id')
+    .eq('status', 'pending')
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const counts: Record<DiscordPostStatus, number> = { pending: 0, sent: 0, failed: 0 };
+  for (const { id } of data ?? []) {
+    counts[await deliverDiscordPost(supabase, id)]++;
+  }
+  return counts;
+}
+
+/**
+ * A session summary in the saved wording. Falls back to the default wording when
+ * the saved template can't be read or rendered, so a bad edit never blocks a post.
+ */
+export async function buildSessionSummary(
+  supabase: SupabaseClient,
+  input: SessionSummaryInput
+): Promise<{ message: DiscordMessage; usedDefault: boolean }> {
+  const { data, error } = await supabase
+    .from('discord_templates')
+    .select('template')
+    .eq('key', SESSION_TEMPLATE_KEY)
+    .maybeSingle();
+  if (error) console.error('Failed to load Discord template:', error);
+
+  try {
+    return { message: sessionSummaryMessage(input, normalizeSessionTemplate(data?.template)), usedDefault: false };
+  } catch (err) {
+    console.error('Discord template error:', err);
+    return { message: sessionSummaryMessage(input), usedDefault: true };
+  }
+}
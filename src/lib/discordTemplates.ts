@@ -0,0 +1,68 @@
+// Loading and saving the Discord message templates from the browser.
+// Rendering lives in lib/discord.ts so API routes can use it without this client.
+
+import { supabase } from '@/lib/supabase/client';
+import { getCurrentUserId } from '@/lib/auth';
+import {
+  SESSION_TEMPLATE_KEY,
+  normalizeSessionTemplate,
+  type SessionTemplate,
+} from '@/lib/discord';
+import { parseTemplate } from '@/lib/templates';
+
+/**
+ * The saved session summary template, or the default when none is saved
+ */
+export async function getSessionTemplate(): Promise<{
+  template: SessionTemplate;
+  updatedAt: string | null;
+}> {
+  const { data, error } = await supabase
+    .from('discord_templates')
+    .select('template, updated_at')
+    .eq('key', SESSION_TEMPLATE_KEY)
+    .maybeSingle();
+
+  if (error) throw error;
+  return { template: normalizeSessionTemplate(data?.template), updatedAt: data?.updated_at ?? null };
+}
+
+/**
+ * Save the session summary template after checking every part parses
+ */
+export async function saveSessionTemplate(template: SessionTemplate): Promise<void> {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('Must be logged in to edit Discord templates');
+
+  for (const [part, source] of Object.entries(template)) {
+    try {
+      parseTemplate(source);
+    } catch (err) {
+      throw new Error(`${part}: ${err instanceof Error ? err.message : 'invalid template'}`);
+    }
+  }
+
+  const { error } = await supabase.from('discord_templates').upsert(
+    {
+      key: SESSION_TEMPLATE_KEY,
+      template,
+      updated_by: userId,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key' }
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Remove the saved template so posts use the default again
+ */
+export async function resetSessionTemplate(): Promise<void> {
+  const { error } = await supabase
+    .from('discord_templates')
+    .delete()
+    .eq('key', SESSION_TEMPLATE_KEY);
+
+  if (error) throw error;
+}
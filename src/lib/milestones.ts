@@ -0,0 +1,74 @@
+// Damage milestones ("1K games", "2K games", ...) are configured per season.
+// A game counts toward every tier its damage reaches, so a 2K game is also a 1K game.
+
+export const DEFAULT_MILESTONE_TIERS = [1000, 2000];
+
+/** Games per milestone tier, keyed by the tier's damage threshold */
+export type MilestoneCounts = Record<string, number>;
+
+/**
+ * Clean up a tier list from the database: positive whole numbers, ascending, no duplicates.
+ * Falls back to the default 1K/2K tiers when nothing usable is configured.
+ */
+export function normalizeMilestoneTiers(tiers: unknown): number[] {
+  if (!Array.isArray(tiers)) return DEFAULT_MILESTONE_TIERS;
+  const clean = Array.from(
+    new Set(tiers.filter((t): t is number => Number.isInteger(t) && t > 0))
+  ).sort((a, b) => a - b);
+  return clean.length > 0 ? clean : DEFAULT_MILESTONE_TIERS;
+}
+
+/**
+ * Tiers reached by a single game's damage
+ */
+export function milestonesReached(damage: number, tiers: number[]): number[] {
+  return tiers.filter((t) => damage >= t);
+}
+
+/**
+ * Count how many games reached each tier
+ */
+export function countMilestones(damages: number[], tiers: number[]): MilestoneCounts {
+  const counts: MilestoneCounts = {};
+  for (const tier of tiers) {
+    counts[tier] = damages.filter((d) => d >= tier).length;
+  }
+  return counts;
+}
+
+/**
+ * Add (or with `sign = -1`, remove) one game's milestones to existing counts
+ */
+export function addMilestones(
+  counts: MilestoneCounts,
+  damage: number,
+  tiers: number[],
+  sign: 1 | -1 = 1
+): MilestoneCounts {
+  const next = { ...counts };
+  for (const tier of milestonesReached(damage, tiers)) {
+    next[tier] = Math.max(0, (next[tier] ?? 0) + sign);
+  }
+  return next;
+}
+
+/**
+ * Sum several sets of counts (e.g. one per session)
+ */
+export function sumMilestones(all: (MilestoneCounts | null | undefined)[]): MilestoneCounts {
+  const total: MilestoneCounts = {};
+  for (const counts of all) {
+    for (const [tier, n] of Object.entries(counts ?? {})) {
+      total[tier] = (total[tier] ?? 0) + n;
+    }
+  }
+  return total;
+}
+
+/**
+ * Short label for a tier, e.g. 1000 -> "1K", 1500 -> "1.5K"
+ */
+export function formatMilestone(tier: number): string {
+  if (tier < 1000) return String(tier);
+  return `${Number((tier / 1000).toFixed(1))}K`;
+}
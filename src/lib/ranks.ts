@@ -0,0 +1,112 @@
+// Apex ranked tiers. Thresholds are configured per season (`seasons.rank_tiers`)
+// since Respawn moves them between splits; a player's RP is their starting RP
+// for the season plus everything logged since.
+
+export type RankTier = {
+  rank: string;
+  /** 4 (lowest) to 1, or null for ranks without divisions */
+  division: number | null;
+  minRp: number;
+};
+
+export type RankEvent = {
+  date: string;
+  from: RankTier;
+  to: RankTier;
+  type: 'promotion' | 'demotion';
+};
+
+export const RANK_COLORS: Record<string, string> = {
+  Rookie: '#9CA3AF',
+  Bronze: '#B45309',
+  Silver: '#CBD5E1',
+  Gold: '#EAB308',
+  Platinum: '#22D3EE',
+  Diamond: '#60A5FA',
+  Master: '#A855F7',
+  Predator: '#EF4444',
+};
+
+function divisions(rank: string, start: number, step: number): RankTier[] {
+  return [4, 3, 2, 1].map((division, i) => ({ rank, division, minRp: start + i * step }));
+}
+
+export const DEFAULT_RANK_TIERS: RankTier[] = [
+  ...divisions('Rookie', 0, 250),
+  ...divisions('Bronze', 1000, 500),
+  ...divisions('Silver', 3000, 500),
+  ...divisions('Gold', 5000, 750),
+  ...divisions('Platinum', 8000, 750),
+  ...divisions('Diamond', 11000, 750),
+  { rank: 'Master', division: null, minRp: 14000 },
+  // Predator is the top 750 on the platform; set a season's cut-off here if known
+  { rank: 'Predator', division: null, minRp: 20000 },
+];
+
+/**
+ * Clean up a tier table from the database: well-formed entries sorted by RP.
+ * Falls back to the default table when nothing usable is configured.
+ */
+export function normalizeRankTiers(tiers: unknown): RankTier[] {
+  if (!Array.isArray(tiers)) return DEFAULT_RANK_TIERS;
+  const clean = tiers
+    .filter(
+      (t): t is RankTier =>
+        typeof t === 'object' &&
+        t !== null &&
+        typeof t.rank === 'string' &&
+        Number.isInteger(t.minRp) &&
+        (t.division === null || t.division === undefined || Number.isInteger(t.division))
+    )
+    .map((t) => ({ rank: t.rank, division: t.division ?? null, minRp: t.minRp }))
+    .sort((a, b) => a.minRp - b.minRp);
+  return clean.length > 0 ? clean : DEFAULT_RANK_TIERS;
+}
+
+/**
+ * Label for a tier, e.g. "Gold II" or "Master"
+ */
+export function formatTier(tier: RankTier): string {
+  if (tier.division === null) return tier.rank;
+  const numerals = ['', 'I', 'II', 'III', 'IV'];
+  return `${tier.rank} ${numerals[tier.division] ?? tier.division}`;
+}
+
+/**
+ * The tier a player with `rp` is in
+ */
+export function tierForRp(rp: number, tiers: RankTier[]): RankTier {
+  let current = tiers[0];
+  for (const tier of tiers) {
+    if (rp >= tier.minRp) current = tier;
+  }
+  return current;
+}
+
+/**
+ * The next tier up and the RP still needed for it, or null at the top
+ */
+export function nextTier(rp: number, tiers: RankTier[]): { tier: RankTier; rpToGo: number } | null {
+  const tier = tiers.find((t) => t.minRp > rp);
+  return tier ? { tier, rpToGo: tier.minRp - rp } : null;
+}
+
+/**
+ * Promotions and demotions along a series of RP values
+ */
+export function rankEvents(series: { date: string; rp: number }[], tiers: RankTier[]): RankEvent[] {
+  const events: RankEvent[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const from = tierForRp(series[i - 1].rp, tiers);
+    const to = tierForRp(series[i].rp, tiers);
+    if (from !== to) {
+      events.push({
+        date: series[i].date,
+        from,
+        to,
+        type: to.minRp > from.minRp ? 'promotion' : 'demotion',
+      });
+    }
+  }
+  return events;
+}
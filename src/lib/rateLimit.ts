@@ -0,0 +1,75 @@
+// Fixed-window rate limiting for API routes.
+// The store is pluggable so a shared backend (e.g. Redis) can replace the
+// in-memory one when the app runs on more than one instance.
+
+export type RateLimitStore = {
+  /** Count one hit for `key` and return the window's running total */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+};
+
+/**
+ * In-memory store. Counts are per server process and reset on restart.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      const current = windows.get(key);
+
+      if (!current || current.resetAt <= now) {
+        // Drop expired windows so the map does not grow without bound
+        for (const [k, w] of windows) {
+          if (w.resetAt <= now) windows.delete(k);
+        }
+        const fresh = { count: 1, resetAt: now + windowMs };
+        windows.set(key, fresh);
+        return fresh;
+      }
+
+      current.count += 1;
+      return current;
+    },
+  };
+}
+
+/**
+ * Create a limiter that allows `limit` hits per key in each `windowMs` window
+ */
+export function createRateLimiter({
+  limit,
+  windowMs,
+  store = createMemoryStore(),
+}: {
+  limit: number;
+  windowMs: number;
+  store?: RateLimitStore;
+}) {
+  return async function check(key: string): Promise<RateLimitResult> {
+    const { count, resetAt } = await store.increment(key, windowMs);
+    return {
+      allowed: count <= limit,
+      remaining: Math.max(0, limit - count),
+      retryAfterSeconds: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+    };
+  };
+}
+
+/**
+ * Client IP as seen by the platform's proxy. The leftmost X-Forwarded-For
+ * entries come from the client and can be anything, so only the address the
+ * proxy set itself (x-real-ip, else the last hop it appended) is trusted.
+ */
+export function getClientIp(headers: Headers): string {
+  const realIp = headers.get('x-real-ip')?.trim();
+  if (realIp) return realIp;
+  const lastHop = headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return lastHop || 'unknown';
+}
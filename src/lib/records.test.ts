@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  RECORD_MILESTONE,
+  brokenRecords,
+  computeRecords,
+  recordsBrokenBy,
+  type RecordSession,
+} from '@/lib/records';
+import { DEFAULT_MILESTONE_TIERS } from '@/lib/milestones';
+import type { GameLogEntry } from '@/lib/stats';
+
+const game = (damage: number, kills = 0, placement = 10): GameLogEntry => ({ damage, kills, placement });
+
+const session = (sessionKey: string, games: GameLogEntry[]): RecordSession => ({
+  sessionKey,
+  date: `2026-10-${sessionKey.slice(1).padStart(2, '0')}`,
+  games,
+});
+
+describe('computeRecords', () => {
+  it('keeps the best game and where it was set', () => {
+    const records = computeRecords([
+      session('s1', [game(1500, 3), game(800, 6)]),
+      session('s2', [game(2400, 1)]),
+    ]);
+    expect(records.damage).toEqual({ key: 'damage', value: 2400, sessionKey: 's2', date: '2026-10-02' });
+    expect(records.kills).toMatchObject({ value: 6, sessionKey: 's1' });
+  });
+
+  it('keeps the earlier record on a tie', () => {
+    const records = computeRecords([session('s1', [game(2000)]), session('s2', [game(2000)])]);
+    expect(records.damage?.sessionKey).toBe('s1');
+  });
+
+  it('runs streaks across sessions', () => {
+    const records = computeRecords([
+      session('s1', [game(100, 1, 5), game(100, 1, 1), game(100, 1, 1)]),
+      session('s2', [game(100, 1, 1), game(100, 1, 2), game(0, 0), game(0, 0)]),
+    ]);
+    expect(records.winStreak).toMatchObject({ value: 3, sessionKey: 's2' });
+    expect(records.donutStreak).toMatchObject({ value: 2, sessionKey: 's2' });
+  });
+
+  it('counts big games against the fixed record milestone, whatever the season tiers', () => {
+    expect(RECORD_MILESTONE).toBe(Math.max(...DEFAULT_MILESTONE_TIERS));
+    const records = computeRecords([
+      session('s1', [game(RECORD_MILESTONE), game(RECORD_MILESTONE - 1), game(RECORD_MILESTONE + 500)]),
+    ]);
+    expect(records.milestoneGames).toMatchObject({ value: 2, sessionKey: 's1' });
+  });
+
+  it('sets no record with a zero value', () => {
+    expect(computeRecords([session('s1', [])])).toEqual({});
+    expect(Object.keys(computeRecords([session('s1', [game(0, 0, 10)])]))).toEqual(['donutStreak']);
+  });
+});
+
+describe('brokenRecords', () => {
+  it('reports records that beat the previous best, not ties', () => {
+    const before = computeRecords([session('s1', [game(2000, 5)])]);
+    const after = computeRecords([session('s1', [game(2000, 5)]), session('s2', [game(2500, 5)])]);
+    expect(brokenRecords(before, after).map((r) => r.key)).toEqual(['damage']);
+  });
+});
+
+describe('recordsBrokenBy', () => {
+  it('reports nothing for a first session', () => {
+    expect(recordsBrokenBy([], session('s1', [game(3000, 9, 1)]))).toEqual([]);
+    expect(recordsBrokenBy([session('s0', [])], session('s1', [game(3000, 9, 1)]))).toEqual([]);
+  });
+
+  it('reports records the new session beats', () => {
+    const broken = recordsBrokenBy(
+      [session('s1', [game(2000, 5, 1)])],
+      session('s2', [game(2100, 5, 3)])
+    );
+    expect(broken).toEqual([{ key: 'damage', value: 2100, sessionKey: 's2', date: '2026-10-02' }]);
+  });
+
+  it('ignores a tie with an earlier record', () => {
+    expect(recordsBrokenBy([session('s1', [game(2000, 5)])], session('s2', [game(2000, 5)]))).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+// Personal records, derived from the per-game log saved with each session's stats.
+// Streaks run across sessions in the order they were played.
+
+import { isDonut, type GameLogEntry } from '@/lib/stats';
+import { DEFAULT_MILESTONE_TIERS, formatMilestone } from '@/lib/milestones';
+
+/**
+ * Damage counted by the "most big games in a session" record: the top default
+ * milestone tier. Records are compared across every season a player has
+ * played, while tiers can differ per season (`seasons.milestone_tiers`), so
+ * the record uses one fixed threshold to stay comparable between seasons.
+ */
+export const RECORD_MILESTONE = Math.max(...DEFAULT_MILESTONE_TIERS);
+
+export type RecordKey = 'damage' | 'kills' | 'milestoneGames' | 'winStreak' | 'donutStreak';
+
+/** One player's saved session, as needed for records */
+export type RecordSession = {
+  sessionKey: string;
+  date: string;
+  games: GameLogEntry[];
+};
+
+export type PersonalRecord = {
+  key: RecordKey;
+  value: number;
+  /** Session the record was set (or the streak ended) in */
+  sessionKey: string;
+  date: string;
+};
+
+export type PersonalRecords = Partial<Record<RecordKey, PersonalRecord>>;
+
+export const RECORD_KEYS: RecordKey[] = [
+  'damage',
+  'kills',
+  'milestoneGames',
+  'winStreak',
+  'donutStreak',
+];
+
+export const RECORD_LABELS: Record<RecordKey, string> = {
+  damage: 'Highest damage game',
+  kills: 'Most kills in a game',
+  milestoneGames: `Most ${formatMilestone(RECORD_MILESTONE)} games in a session`,
+  winStreak: 'Longest win streak',
+  donutStreak: 'Longest donut streak',
+};
+
+/**
+ * A `season_player_stats` row as a records session
+ */
+export function recordSessionFromRow(row: {
+  session_id: string | null;
+  created_at: string;
+  game_log: GameLogEntry[] | null;
+}): RecordSession {
+  return {
+    sessionKey: row.session_id || row.created_at.slice(0, 16),
+    date: row.created_at.split('T')[0],
+    games: row.game_log ?? [],
+  };
+}
+
+/**
+ * Best values over a player's sessions (in the order they were played).
+ * Ties keep the earlier record.
+ */
+export function computeRecords(sessions: RecordSession[]): PersonalRecords {
+  const records: PersonalRecords = {};
+  const offer = (key: RecordKey, value: number, session: RecordSession) => {
+    if (value <= 0) return;
+    const current = records[key];
+    if (!current || value > current.value) {
+      records[key] = { key, value, sessionKey: session.sessionKey, date: session.date };
+    }
+  };
+
+  let winStreak = 0;
+  let donutStreak = 0;
+
+  for (const session of sessions) {
+    let milestoneGames = 0;
+    for (const game of session.games) {
+      offer('damage', game.damage, session);
+      offer('kills', game.kills, session);
+      if (game.damage >= RECORD_MILESTONE) milestoneGames++;
+
+      winStreak = game.placement === 1 ? winStreak + 1 : 0;
+      donutStreak = isDonut(game) ? donutStreak + 1 : 0;
+      offer('winStreak', winStreak, session);
+      offer('donutStreak', donutStreak, session);
+    }
+    offer('milestoneGames', milestoneGames, session);
+  }
+
+  return records;
+}
+
+/**
+ * Records in `after` that beat the matching record in `before`
+ */
+export function brokenRecords(before: PersonalRecords, after: PersonalRecords): PersonalRecord[] {
+  return RECORD_KEYS.flatMap((key) => {
+    const next = after[key];
+    if (!next) return [];
+    const prev = before[key];
+    return !prev || next.value > prev.value ? [next] : [];
+  });
+}
+
+/**
+ * Records a new session breaks, given the player's earlier sessions. A first
+ * session sets every record, so only ones that beat an earlier best count.
+ */
+export function recordsBrokenBy(previous: RecordSession[], session: RecordSession): PersonalRecord[] {
+  if (!previous.some((s) => s.games.length > 0)) return [];
+  return brokenRecords(computeRecords(previous), computeRecords([...previous, session]));
+}
+
+/**
+ * Records set in one of the given sessions
+ */
+export function recordsSetIn(records: PersonalRecords, sessionKeys: string[]): PersonalRecord[] {
+  return RECORD_KEYS.flatMap((key) => {
+    const record = records[key];
+    return record && sessionKeys.includes(record.sessionKey) ? [record] : [];
+  });
+}
+
+/**
+ * Display value for a record, e.g. "3,412" or "4 games"
+ */
+export function formatRecordValue(record: PersonalRecord): string {
+  switch (record.key) {
+    case 'damage':
+    case 'kills':
+      return record.value.toLocaleString();
+    case 'milestoneGames':
+    case 'winStreak':
+    case 'donutStreak':
+      return `${record.value} ${record.value === 1 ? 'game' : 'games'}`;
+  }
+}
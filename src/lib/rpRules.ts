@@ -0,0 +1,145 @@
+// Ranked scoring rules used to estimate a game's RP from placement and kills.
+// Rules are versioned per season (`rp_rulesets`): when Respawn changes ranked
+// scoring mid-season a new version is saved with the time it takes effect, so
+// earlier games keep being scored by the rules they were played under.
+
+import { supabase } from '@/lib/supabase/client';
+import { getCurrentUserId } from '@/lib/auth';
+
+export type RpRules = {
+  /** RP paid to enter a match, by rank name (e.g. "Gold") */
+  entryCost: Record<string, number>;
+  /** RP for each placement; index 0 is 1st place */
+  placementPoints: number[];
+  /** RP per kill or assist */
+  killPoints: number;
+  /** Kills and assists that earn RP in one game */
+  killCap: number;
+};
+
+export type RpRuleset = {
+  id: string;
+  season_id: string;
+  version: number;
+  rules: RpRules;
+  effective_from: string;
+  created_at: string;
+  created_by: string | null;
+};
+
+export const DEFAULT_RP_RULES: RpRules = {
+  entryCost: {
+    Rookie: 0,
+    Bronze: 10,
+    Silver: 20,
+    Gold: 30,
+    Platinum: 40,
+    Diamond: 50,
+    Master: 60,
+    Predator: 60,
+  },
+  placementPoints: [125, 95, 70, 55, 45, 30, 20, 20, 10, 10, 5, 5, 5, 5, 5, 0, 0, 0, 0, 0],
+  killPoints: 10,
+  killCap: 6,
+};
+
+function isWhole(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+/**
+ * Fill any missing or malformed part of a stored ruleset from the defaults
+ */
+export function normalizeRpRules(input: unknown): RpRules {
+  if (typeof input !== 'object' || input === null) return DEFAULT_RP_RULES;
+  const rules = input as Partial<Record<keyof RpRules, unknown>>;
+
+  const entryCost = { ...DEFAULT_RP_RULES.entryCost };
+  if (typeof rules.entryCost === 'object' && rules.entryCost !== null) {
+    for (const [rank, cost] of Object.entries(rules.entryCost)) {
+      if (isWhole(cost)) entryCost[rank] = cost;
+    }
+  }
+
+  const placementPoints = DEFAULT_RP_RULES.placementPoints.map((fallback, i) => {
+    const points = Array.isArray(rules.placementPoints) ? rules.placementPoints[i] : undefined;
+    return isWhole(points) ? points : fallback;
+  });
+
+  return {
+    entryCost,
+    placementPoints,
+    killPoints: isWhole(rules.killPoints) ? rules.killPoints : DEFAULT_RP_RULES.killPoints,
+    killCap:
+      isWhole(rules.killCap) && rules.killCap >= 0 ? rules.killCap : DEFAULT_RP_RULES.killCap,
+  };
+}
+
+/**
+ * The rules in effect at `at`: the newest version that had started by then.
+ * Uses the defaults when the season has no ruleset saved.
+ */
+export function rulesAt(rulesets: RpRuleset[], at: string): RpRules {
+  const time = new Date(at).getTime();
+  const active = rulesets
+    .filter((r) => new Date(r.effective_from).getTime() <= time)
+    .sort((a, b) => b.version - a.version)[0];
+  return active ? normalizeRpRules(active.rules) : DEFAULT_RP_RULES;
+}
+
+/**
+ * Estimated RP change for one game: placement and kill points minus the entry cost
+ */
+export function estimateGameRp(
+  rules: RpRules,
+  game: { placement: number; kills: number },
+  rank: string
+): number {
+  const placement = rules.placementPoints[game.placement - 1] ?? 0;
+  const kills = Math.min(game.kills, rules.killCap) * rules.killPoints;
+  return placement + kills - (rules.entryCost[rank] ?? 0);
+}
+
+/**
+ * All ruleset versions for a season, oldest first
+ */
+export async function getSeasonRulesets(seasonId: string): Promise<RpRuleset[]> {
+  const { data, error } = await supabase
+    .from('rp_rulesets')
+    .select('*')
+    .eq('season_id', seasonId)
+    .order('version', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as RpRuleset[];
+}
+
+/**
+ * Save a new ruleset version for a season, taking effect at `effectiveFrom`
+ */
+export async function saveRuleset(
+  seasonId: string,
+  rules: RpRules,
+  effectiveFrom: string
+): Promise<RpRuleset> {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('Must be logged in to edit RP rules');
+
+  const existing = await getSeasonRulesets(seasonId);
+  const version = (existing[existing.length - 1]?.version ?? 0) + 1;
+
+  const { data, error } = await supabase
+    .from('rp_rulesets')
+    .insert({
+      season_id: seasonId,
+      version,
+      rules: normalizeRpRules(rules),
+      effective_from: effectiveFrom,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as RpRuleset;
+}
@@ -5,6 +5,10 @@ export type Season = {
   id: string;
   season_number: number;
   is_active: boolean;
+  /** Damage milestone thresholds for this season, e.g. [1000, 2000, 3000] */
+  milestone_tiers: number[] | null;
+  /** Ranked thresholds for this season, or null for the default table */
+  rank_tiers: unknown | null;
   created_at: string;
   created_by: string | null;
 };
@@ -23,6 +27,19 @@ export async function getActiveSeason(): Promise<Season | null> {
   return data as Season | null;
 }
 
+/**
+ * Get every season, newest first
+ */
+export async function getSeasons(): Promise<Season[]> {
+  const { data, error } = await supabase
+    .from('seasons')
+    .select('*')
+    .order('season_number', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []) as Season[];
+}
+
 /**
  * Set a new active season (deactivates any existing one)
  */
@@ -74,19 +91,27 @@ export async function setActiveSeason(seasonNumber: number): Promise<Season> {
 }
 
 /**
- * Reset the current season - wipes all RP entries for this season
+ * Reset the current season - zeroes the RP saved for this season's sessions.
+ * Everything else saved for its sessions is kept.
  */
 export async function resetCurrentSeason(): Promise<void> {
   const season = await getActiveSeason();
   if (!season) throw new Error('No active season to reset');
 
-  // Delete all RP entries for this season
+  // Clear the RP on every session's stats for this season
   const { error } = await supabase
-    .from('season_rp_entries')
-    .delete()
+    .from('season_player_stats')
+    .update({ total_rp: 0 })
     .eq('season_id', season.id);
 
   if (error) throw error;
+
+  const { error: summaryError } = await supabase
+    .from('season_session_summaries')
+    .update({ total_rp: 0 })
+    .eq('season_id', season.id);
+
+  if (summaryError) throw summaryError;
 }
 
 /**
@@ -123,6 +148,31 @@ export async function joinActiveSeason(): Promise<void> {
   if (error) throw error;
 }
 
+/**
+ * Set the current user's ranked RP at the start of the active season
+ */
+export async function setMyStartingRp(startingRp: number): Promise<void> {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('Must be logged in');
+  if (!Number.isInteger(startingRp) || startingRp < 0) {
+    throw new Error('Starting RP must be a whole number of 0 or more');
+  }
+
+  const season = await getActiveSeason();
+  if (!season) throw new Error('No active season');
+
+  const { error } = await supabase.from('season_players').upsert(
+    {
+      season_id: season.id,
+      user_id: userId,
+      starting_rp: startingRp,
+    },
+    { onConflict: 'season_id,user_id' }
+  );
+
+  if (error) throw error;
+}
+
 /**
  * Get all players in the active season with their profiles
  */
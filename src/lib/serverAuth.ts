@@ -0,0 +1,20 @@
+// Caller identity for the API routes. Takes the routes' service-role client.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * The signed-in user from the `Authorization: Bearer <access token>` header,
+ * or null when there is no valid token
+ */
+export async function getRequestUserId(
+  request: Request,
+  supabase: SupabaseClient
+): Promise<string | null> {
+  const header = request.headers.get('authorization');
+  const token = header?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user.id;
+}
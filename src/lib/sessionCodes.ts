@@ -0,0 +1,32 @@
+/** Sessions without an update for this long count as idle (and get archived) */
+export const SESSION_IDLE_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Random 6-digit session code from a cryptographically secure source
+ */
+export function generateSessionCode(): string {
+  // Rejection sampling keeps every code equally likely
+  const range = 900000;
+  const limit = Math.floor(0x100000000 / range) * range;
+  const buf = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buf);
+  } while (buf[0] >= limit);
+  return (100000 + (buf[0] % range)).toString();
+}
+
+/**
+ * Whether a session's join code has expired (finalized, archived or idle)
+ */
+export function isSessionCodeExpired(
+  session: {
+    finalized_at: string | null;
+    archived_at: string | null;
+    updated_at: string | null;
+  },
+  now: number = Date.now()
+): boolean {
+  if (session.finalized_at || session.archived_at) return true;
+  if (!session.updated_at) return false;
+  return now - new Date(session.updated_at).getTime() > SESSION_IDLE_MS;
+}
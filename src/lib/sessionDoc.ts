@@ -0,0 +1,37 @@
+// Shared shape of the `sessions.doc` JSON blob used by the tracker and API routes
+
+import type { MilestoneCounts } from '@/lib/milestones';
+
+export type GameEntry = { damage: number; kills: number };
+
+export type GameFrame = {
+  id: string;
+  entries: { odlId: string; entry: GameEntry }[];
+  placement: number;
+  playedAt: string;
+};
+
+export type SessionDocPlayer = {
+  odlId: string;
+  odlierId: string | null;
+  name: string;
+  games: number;
+  totalDamage: number;
+  totalKills: number;
+  milestones: MilestoneCounts;
+  donuts: number;
+  totalRP: number;
+  rpHistory?: number[];
+};
+
+export type SessionDoc = {
+  /** Damage milestone tiers, copied from the season when the session is created */
+  milestoneTiers: number[];
+  players: SessionDocPlayer[];
+  sessionGames: number;
+  wins: number;
+  totalPlacement: number;
+  placements: number[];
+  games: GameFrame[];
+  lastUpdated?: string;
+};
@@ -0,0 +1,215 @@
+import type { GameEntry, GameFrame, SessionDoc, SessionDocPlayer } from '@/lib/sessionDoc';
+import { addGameToTotals } from '@/lib/stats';
+
+export const MAX_SESSION_PLAYERS = 3;
+
+/** Largest RP gain or loss one commit may record; a ranked match moves far less */
+export const MAX_RP_DELTA = 1000;
+
+export type SessionOp =
+  | {
+      type: 'addGame';
+      id: string;
+      placement: number;
+      playedAt: string;
+      entries: { odlId: string; entry: GameEntry }[];
+    }
+  | { type: 'undoGame' }
+  | {
+      type: 'addPlayer';
+      player: { odlId: string; odlierId: string | null; name: string };
+    }
+  | { type: 'removePlayer'; odlId: string }
+  | { type: 'commitRp'; odlId: string; delta: number }
+  | { type: 'undoRp'; odlId: string };
+
+export type SessionActor = {
+  isHost: boolean;
+  userId: string | null;
+};
+
+function toStat(value: unknown): number {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+function findPlayer(doc: SessionDoc, odlId: string): SessionDocPlayer {
+  const player = doc.players.find((p) => p.odlId === odlId);
+  if (!player) throw new Error('Player not in session');
+  return player;
+}
+
+function updatePlayer(
+  doc: SessionDoc,
+  odlId: string,
+  update: (p: SessionDocPlayer) => SessionDocPlayer
+): SessionDocPlayer[] {
+  return doc.players.map((p) => (p.odlId === odlId ? update(p) : p));
+}
+
+/**
+ * Whether `actor` may apply `op` to `doc`.
+ * The host can do anything; a player can only join as themselves and edit their own RP.
+ */
+export function canApplySessionOp(
+  op: SessionOp,
+  doc: SessionDoc,
+  actor: SessionActor
+): boolean {
+  if (actor.isHost) return true;
+  if (!actor.userId) return false;
+
+  switch (op.type) {
+    case 'addPlayer':
+      return op.player.odlierId === actor.userId;
+    case 'commitRp':
+    case 'undoRp':
+      return doc.players.some(
+        (p) => p.odlId === op.odlId && p.odlierId === actor.userId
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply one operation to a session doc and return the new doc.
+ * All derived totals (games, milestones, donuts, wins) are computed here so
+ * the server stays the authority on them. Throws on an invalid operation.
+ */
+export function applySessionOp(doc: SessionDoc, op: SessionOp): SessionDoc {
+  const games = doc.games ?? [];
+  const placements = doc.placements ?? [];
+
+  switch (op.type) {
+    case 'addGame': {
+      const placement = Math.floor(Number(op.placement));
+      if (!Number.isFinite(placement) || placement < 1 || placement > 20) {
+        throw new Error('Placement must be between 1 and 20');
+      }
+
+      const frame: GameFrame = {
+        id: op.id,
+        placement,
+        playedAt: op.playedAt,
+        entries: doc.players.map((p) => {
+          const rec = op.entries.find((e) => e.odlId === p.odlId);
+          return {
+            odlId: p.odlId,
+            entry: {
+              damage: toStat(rec?.entry.damage),
+              kills: toStat(rec?.entry.kills),
+            },
+          };
+        }),
+      };
+
+      return {
+        ...doc,
+        players: doc.players.map((p) => {
+          const { entry } = frame.entries.find((e) => e.odlId === p.odlId)!;
+          return addGameToTotals(p, entry, doc.milestoneTiers);
+        }),
+        sessionGames: doc.sessionGames + 1,
+        wins: doc.wins + (placement === 1 ? 1 : 0),
+        totalPlacement: doc.totalPlacement + placement,
+        placements: [...placements, placement],
+        games: [...games, frame],
+      };
+    }
+
+    case 'undoGame': {
+      const last = games[games.length - 1];
+      if (!last) throw new Error('No games to undo');
+
+      return {
+        ...doc,
+        players: doc.players.map((p) => {
+          const rec = last.entries.find((e) => e.odlId === p.odlId);
+          if (!rec) return p;
+          return addGameToTotals(p, rec.entry, doc.milestoneTiers, -1);
+        }),
+        sessionGames: Math.max(0, doc.sessionGames - 1),
+        wins: Math.max(0, doc.wins - (last.placement === 1 ? 1 : 0)),
+        totalPlacement: Math.max(0, doc.totalPlacement - last.placement),
+        placements: placements.slice(0, -1),
+        games: games.slice(0, -1),
+      };
+    }
+
+    case 'addPlayer': {
+      const { odlId, odlierId, name } = op.player;
+      const alreadyIn = doc.players.some(
+        (p) => p.odlId === odlId || (odlierId !== null && p.odlierId === odlierId)
+      );
+      if (alreadyIn) return doc;
+      if (doc.players.length >= MAX_SESSION_PLAYERS) {
+        throw new Error(`Maximum ${MAX_SESSION_PLAYERS} players allowed`);
+      }
+
+      return {
+        ...doc,
+        players: [
+          ...doc.players,
+          {
+            odlId,
+            odlierId,
+            name,
+            games: 0,
+            totalDamage: 0,
+            totalKills: 0,
+            milestones: {},
+            donuts: 0,
+            totalRP: 0,
+            rpHistory: [],
+          },
+        ],
+      };
+    }
+
+    case 'removePlayer': {
+      findPlayer(doc, op.odlId);
+      return {
+        ...doc,
+        players: doc.players.filter((p) => p.odlId !== op.odlId),
+      };
+    }
+
+    case 'commitRp': {
+      const delta = Number(op.delta);
+      if (!Number.isInteger(delta)) throw new Error('RP change must be a whole number');
+      if (Math.abs(delta) > MAX_RP_DELTA) {
+        throw new Error(`RP change must be between -${MAX_RP_DELTA} and ${MAX_RP_DELTA}`);
+      }
+      findPlayer(doc, op.odlId);
+
+      return {
+        ...doc,
+        players: updatePlayer(doc, op.odlId, (p) => ({
+          ...p,
+          totalRP: p.totalRP + delta,
+          rpHistory: [...(p.rpHistory ?? []), delta],
+        })),
+      };
+    }
+
+    case 'undoRp': {
+      const player = findPlayer(doc, op.odlId);
+      const rpHistory = player.rpHistory ?? [];
+      if (rpHistory.length === 0) throw new Error('No RP changes to undo');
+      const last = rpHistory[rpHistory.length - 1];
+
+      return {
+        ...doc,
+        players: updatePlayer(doc, op.odlId, (p) => ({
+          ...p,
+          totalRP: p.totalRP - last,
+          rpHistory: rpHistory.slice(0, -1),
+        })),
+      };
+    }
+
+    default:
+      throw new Error('Unknown session operation');
+  }
+}
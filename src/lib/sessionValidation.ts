@@ -0,0 +1,312 @@
+import type { GameFrame, SessionDoc, SessionDocPlayer } from '@/lib/sessionDoc';
+import { MAX_RP_DELTA, MAX_SESSION_PLAYERS, type SessionOp } from '@/lib/sessionOps';
+import { DEFAULT_MILESTONE_TIERS, normalizeMilestoneTiers } from '@/lib/milestones';
+
+export type FieldError = { field: string; message: string };
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] };
+
+type UnknownRecord = Record<string, unknown>;
+
+function isObject(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isPlacement(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 20;
+}
+
+// Small collector so checks read as one line each
+function checker(errors: FieldError[]) {
+  return (ok: boolean, field: string, message: string) => {
+    if (!ok) errors.push({ field, message });
+    return ok;
+  };
+}
+
+function validatePlayer(p: unknown, path: string, errors: FieldError[]) {
+  const check = checker(errors);
+  if (!check(isObject(p), path, 'must be an object')) return;
+  const player = p as UnknownRecord;
+
+  check(
+    typeof player.odlId === 'string' && player.odlId !== '',
+    `${path}.odlId`,
+    'must be a non-empty string'
+  );
+  check(
+    player.odlierId === null || typeof player.odlierId === 'string',
+    `${path}.odlierId`,
+    'must be a string or null'
+  );
+  check(typeof player.name === 'string', `${path}.name`, 'must be a string');
+
+  const counts = ['games', 'totalDamage', 'totalKills', 'donuts'] as const;
+  for (const key of counts) {
+    check(isCount(player[key]), `${path}.${key}`, 'must be a non-negative integer');
+  }
+  check(Number.isInteger(player.totalRP), `${path}.totalRP`, 'must be an integer');
+
+  if (player.rpHistory !== undefined) {
+    check(
+      Array.isArray(player.rpHistory) && player.rpHistory.every(Number.isInteger),
+      `${path}.rpHistory`,
+      'must be a list of integers'
+    );
+  }
+
+  // Docs saved before configurable tiers have oneKGames/twoKGames instead
+  const milestones =
+    player.milestones === undefined
+      ? { oneKGames: player.oneKGames ?? 0, twoKGames: player.twoKGames ?? 0 }
+      : player.milestones;
+  if (!isObject(milestones)) {
+    check(false, `${path}.milestones`, 'must be an object');
+  } else {
+    for (const [tier, n] of Object.entries(milestones)) {
+      check(isCount(n), `${path}.milestones.${tier}`, 'must be a non-negative integer');
+      if (isCount(n) && isCount(player.games)) {
+        check(n <= player.games, `${path}.milestones.${tier}`, 'cannot exceed games played');
+      }
+    }
+  }
+
+  if (isCount(player.donuts) && isCount(player.games)) {
+    check(player.donuts <= player.games, `${path}.donuts`, 'cannot exceed games played');
+  }
+}
+
+// Fill in fields added after a doc may have been saved
+function normalizePlayer(p: UnknownRecord): SessionDocPlayer {
+  const { oneKGames, twoKGames, ...player } = p;
+  const oneK = (oneKGames as number | undefined) ?? 0;
+  const twoK = (twoKGames as number | undefined) ?? 0;
+  return {
+    ...(player as Omit<SessionDocPlayer, 'milestones'>),
+    // Legacy 1K counts excluded 2K games; tiers count a 2K game toward 1K as well
+    milestones: (p.milestones as SessionDocPlayer['milestones'] | undefined) ?? {
+      1000: oneK + twoK,
+      2000: twoK,
+    },
+  };
+}
+
+function validateGameFrame(g: unknown, path: string, errors: FieldError[]) {
+  const check = checker(errors);
+  if (!check(isObject(g), path, 'must be an object')) return;
+  const frame = g as UnknownRecord;
+
+  check(typeof frame.id === 'string', `${path}.id`, 'must be a string');
+  check(typeof frame.playedAt === 'string', `${path}.playedAt`, 'must be a string');
+  check(isPlacement(frame.placement), `${path}.placement`, 'must be between 1 and 20');
+
+  if (!check(Array.isArray(frame.entries), `${path}.entries`, 'must be a list')) return;
+  (frame.entries as unknown[]).forEach((e, i) => {
+    const entryPath = `${path}.entries[${i}]`;
+    if (!check(isObject(e) && isObject(e.entry), entryPath, 'must be an object')) return;
+    const rec = e as UnknownRecord;
+    const entry = rec.entry as UnknownRecord;
+    check(typeof rec.odlId === 'string', `${entryPath}.odlId`, 'must be a string');
+    check(isCount(entry.damage), `${entryPath}.entry.damage`, 'must be a non-negative integer');
+    check(isCount(entry.kills), `${entryPath}.entry.kills`, 'must be a non-negative integer');
+  });
+}
+
+/**
+ * Validate an untrusted value as a SessionDoc.
+ * Returns the doc on success, or one error per bad field (e.g. `players[1].totalDamage`).
+ */
+export function validateSessionDoc(input: unknown): ValidationResult<SessionDoc> {
+  const errors: FieldError[] = [];
+  const check = checker(errors);
+
+  if (!check(isObject(input), 'doc', 'must be an object')) {
+    return { ok: false, errors };
+  }
+  const doc = input as UnknownRecord;
+
+  if (check(Array.isArray(doc.players), 'players', 'must be a list')) {
+    const players = doc.players as unknown[];
+    check(
+      players.length <= MAX_SESSION_PLAYERS,
+      'players',
+      `cannot have more than ${MAX_SESSION_PLAYERS} players`
+    );
+    players.forEach((p, i) => validatePlayer(p, `players[${i}]`, errors));
+
+    const ids = players
+      .filter(isObject)
+      .map((p) => p.odlId)
+      .filter((id) => typeof id === 'string');
+    check(new Set(ids).size === ids.length, 'players', 'must have unique odlIds');
+  }
+
+  if (doc.milestoneTiers !== undefined) {
+    check(
+      Array.isArray(doc.milestoneTiers) &&
+        doc.milestoneTiers.length > 0 &&
+        doc.milestoneTiers.every((t) => Number.isInteger(t) && t > 0),
+      'milestoneTiers',
+      'must be a list of positive whole numbers'
+    );
+  }
+
+  check(isCount(doc.sessionGames), 'sessionGames', 'must be a non-negative integer');
+  check(isCount(doc.wins), 'wins', 'must be a non-negative integer');
+  check(isCount(doc.totalPlacement), 'totalPlacement', 'must be a non-negative integer');
+
+  if (isCount(doc.wins) && isCount(doc.sessionGames)) {
+    check(doc.wins <= doc.sessionGames, 'wins', 'cannot exceed sessionGames');
+  }
+
+  if (check(Array.isArray(doc.placements), 'placements', 'must be a list')) {
+    const placements = doc.placements as unknown[];
+    placements.forEach((p, i) =>
+      check(isPlacement(p), `placements[${i}]`, 'must be between 1 and 20')
+    );
+    // Sessions converted from the old live-session tables have no per-game
+    // frames and count games that were never given a placement, so only they
+    // may have fewer placements than games
+    const legacy = !Array.isArray(doc.games) || doc.games.length === 0;
+    if (isCount(doc.sessionGames)) {
+      if (legacy) {
+        check(
+          placements.length <= doc.sessionGames,
+          'placements',
+          `cannot have more entries than games (expected at most ${doc.sessionGames}, got ${placements.length})`
+        );
+      } else {
+        check(
+          placements.length === doc.sessionGames,
+          'placements',
+          `must have one entry per game (expected ${doc.sessionGames}, got ${placements.length})`
+        );
+      }
+    }
+    if (!legacy) {
+      const games = doc.games as unknown[];
+      check(
+        games.length === placements.length,
+        'games',
+        `must have one entry per placement (expected ${placements.length}, got ${games.length})`
+      );
+    }
+  }
+
+  if (doc.games !== undefined) {
+    if (check(Array.isArray(doc.games), 'games', 'must be a list')) {
+      (doc.games as unknown[]).forEach((g, i) =>
+        validateGameFrame(g, `games[${i}]`, errors)
+      );
+    }
+  }
+
+  if (doc.lastUpdated !== undefined) {
+    check(typeof doc.lastUpdated === 'string', 'lastUpdated', 'must be a string');
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  // Docs saved before per-game history or milestone tiers existed lack those fields
+  return {
+    ok: true,
+    value: {
+      ...(doc as SessionDoc),
+      milestoneTiers:
+        doc.milestoneTiers === undefined
+          ? DEFAULT_MILESTONE_TIERS
+          : normalizeMilestoneTiers(doc.milestoneTiers),
+      players: (doc.players as UnknownRecord[]).map(normalizePlayer),
+      games: (doc.games as GameFrame[] | undefined) ?? [],
+    },
+  };
+}
+
+/**
+ * Validate the shape of the operations sent to PUT /api/post-session.
+ * Value rules (placement range, RP deltas, ...) are enforced by applySessionOp.
+ */
+export function validateSessionOps(input: unknown): ValidationResult<SessionOp[]> {
+  const errors: FieldError[] = [];
+  const check = checker(errors);
+
+  if (!check(Array.isArray(input) && input.length > 0, 'ops', 'must be a non-empty list')) {
+    return { ok: false, errors };
+  }
+
+  (input as unknown[]).forEach((o, i) => {
+    const path = `ops[${i}]`;
+    if (!check(isObject(o), path, 'must be an object')) return;
+    const op = o as UnknownRecord;
+
+    switch (op.type) {
+      case 'addGame':
+        check(typeof op.id === 'string', `${path}.id`, 'must be a string');
+        check(typeof op.playedAt === 'string', `${path}.playedAt`, 'must be a string');
+        check(Number.isFinite(op.placement), `${path}.placement`, 'must be a number');
+        check(Array.isArray(op.entries), `${path}.entries`, 'must be a list');
+        if (Array.isArray(op.entries)) {
+          op.entries.forEach((e: unknown, j: number) =>
+            check(
+              isObject(e) && typeof e.odlId === 'string' && isObject(e.entry),
+              `${path}.entries[${j}]`,
+              'must have an odlId and an entry'
+            )
+          );
+        }
+        break;
+      case 'undoGame':
+        break;
+      case 'addPlayer': {
+        const player = op.player;
+        if (!isObject(player)) {
+          check(false, `${path}.player`, 'must be an object');
+          break;
+        }
+        check(
+          typeof player.odlId === 'string' && player.odlId !== '',
+          `${path}.player.odlId`,
+          'must be a non-empty string'
+        );
+        check(
+          player.odlierId === null || typeof player.odlierId === 'string',
+          `${path}.player.odlierId`,
+          'must be a string or null'
+        );
+        check(typeof player.name === 'string', `${path}.player.name`, 'must be a string');
+        break;
+      }
+      case 'removePlayer':
+      case 'undoRp':
+        check(typeof op.odlId === 'string', `${path}.odlId`, 'must be a string');
+        break;
+      case 'commitRp':
+        check(typeof op.odlId === 'string', `${path}.odlId`, 'must be a string');
+        if (check(Number.isInteger(op.delta), `${path}.delta`, 'must be an integer')) {
+          check(
+            Math.abs(op.delta as number) <= MAX_RP_DELTA,
+            `${path}.delta`,
+            `must be between -${MAX_RP_DELTA} and ${MAX_RP_DELTA}`
+          );
+        }
+        break;
+      default:
+        check(false, `${path}.type`, 'is not a known operation');
+    }
+  });
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: input as SessionOp[] };
+}
+
+/**
+ * Join field errors into one readable message for the UI
+ */
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map((e) => `${e.field} ${e.message}`).join('; ');
+}
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMPTY_TOTALS,
+  addGameToTotals,
+  computeConsistency,
+  computePlacementStats,
+  computeTotals,
+  computeWeeklyDigest,
+  isDonut,
+  percentile,
+  sessionsInWindow,
+  type GameLogEntry,
+} from '@/lib/stats';
+
+const TIERS = [1000, 2000];
+
+const game = (damage: number, kills = 0, placement = 10): GameLogEntry => ({ damage, kills, placement });
+
+describe('isDonut', () => {
+  it('needs both no damage and no kills', () => {
+    expect(isDonut({ damage: 0, kills: 0 })).toBe(true);
+    expect(isDonut({ damage: 0, kills: 1 })).toBe(false);
+    expect(isDonut({ damage: 1, kills: 0 })).toBe(false);
+  });
+});
+
+describe('addGameToTotals', () => {
+  it('adds a game, counting every milestone tier it reaches', () => {
+    const totals = addGameToTotals(EMPTY_TOTALS, { damage: 2500, kills: 3 }, TIERS);
+    expect(totals).toEqual({
+      games: 1,
+      totalDamage: 2500,
+      totalKills: 3,
+      donuts: 0,
+      milestones: { 1000: 1, 2000: 1 },
+    });
+  });
+
+  it('with sign -1 undoes exactly what adding did', () => {
+    const before = computeTotals([{ damage: 1200, kills: 2 }, { damage: 0, kills: 0 }], TIERS);
+    const donut = { damage: 0, kills: 0 };
+    const after = addGameToTotals(addGameToTotals(before, donut, TIERS), donut, TIERS, -1);
+    expect(after).toEqual(before);
+
+    const big = { damage: 2100, kills: 5 };
+    expect(addGameToTotals(addGameToTotals(before, big, TIERS), big, TIERS, -1)).toEqual({
+      ...before,
+      milestones: { 1000: 1, 2000: 0 },
+    });
+  });
+
+  it('never goes below zero', () => {
+    const totals = addGameToTotals(EMPTY_TOTALS, { damage: 2500, kills: 3 }, TIERS, -1);
+    expect(totals).toEqual({
+      games: 0,
+      totalDamage: 0,
+      totalKills: 0,
+      donuts: 0,
+      milestones: { 1000: 0, 2000: 0 },
+    });
+  });
+});
+
+describe('computePlacementStats', () => {
+  it('computes rates and the histogram', () => {
+    const stats = computePlacementStats([1, 3, 5, 8, 20]);
+    expect(stats.games).toBe(5);
+    expect(stats.wins).toBe(1);
+    expect(stats.avgPlacement).toBeCloseTo(7.4);
+    expect(stats.winRate).toBeCloseTo(0.2);
+    expect(stats.top3Rate).toBeCloseTo(0.4);
+    expect(stats.top5Rate).toBeCloseTo(0.6);
+    expect(stats.histogram).toHaveLength(20);
+    expect(stats.histogram[0]).toBe(1);
+    expect(stats.histogram[19]).toBe(1);
+    expect(stats.histogram.reduce((s, n) => s + n, 0)).toBe(5);
+  });
+
+  it('is all zeros with no games', () => {
+    const stats = computePlacementStats([]);
+    expect(stats).toMatchObject({ games: 0, wins: 0, avgPlacement: 0, winRate: 0, top3Rate: 0, top5Rate: 0 });
+  });
+});
+
+describe('percentile', () => {
+  it('interpolates between neighbours', () => {
+    expect(percentile([10, 20, 30, 40], 0)).toBe(10);
+    expect(percentile([10, 20, 30, 40], 1)).toBe(40);
+    expect(percentile([10, 20, 30, 40], 0.5)).toBe(25);
+    expect(percentile([10, 20, 30], 0.25)).toBe(15);
+  });
+
+  it('is 0 for an empty list', () => {
+    expect(percentile([], 0.5)).toBe(0);
+  });
+});
+
+describe('computeConsistency', () => {
+  it('scores identical games 100', () => {
+    const stats = computeConsistency([game(500), game(500), game(500)]);
+    expect(stats.damageStdDev).toBe(0);
+    expect(stats.consistencyScore).toBe(100);
+  });
+
+  it('reports the spread of damage', () => {
+    const stats = computeConsistency([game(400), game(0), game(800), game(200)]);
+    expect(stats.games).toBe(4);
+    expect(stats.meanDamage).toBe(350);
+    expect(stats.medianDamage).toBe(300);
+    expect(stats.damageStdDev).toBeCloseTo(Math.sqrt(87500));
+    expect(stats.p25Damage).toBe(150);
+    expect(stats.p75Damage).toBe(500);
+    expect(stats.consistencyScore).toBe(Math.round(100 * (1 - Math.sqrt(87500) / 350)));
+  });
+
+  it('scores 0 with no games or no damage', () => {
+    expect(computeConsistency([]).consistencyScore).toBe(0);
+    expect(computeConsistency([game(0), game(0)]).consistencyScore).toBe(0);
+  });
+});
+
+describe('sessionsInWindow', () => {
+  const sessions = [
+    { id: 'a', games: [game(1), game(2), game(3)] },
+    { id: 'b', games: [game(4), game(5)] },
+    { id: 'c', games: [game(6)] },
+  ];
+
+  it('keeps everything without a window', () => {
+    expect(sessionsInWindow(sessions, null)).toBe(sessions);
+  });
+
+  it('keeps the last sessions', () => {
+    expect(sessionsInWindow(sessions, { unit: 'sessions', size: 2 }).map((s) => s.id)).toEqual(['b', 'c']);
+  });
+
+  it('keeps the last games, trimming the oldest session it reaches into', () => {
+    const kept = sessionsInWindow(sessions, { unit: 'games', size: 4 });
+    expect(kept.map((s) => s.id)).toEqual(['a', 'b', 'c']);
+    expect(kept.flatMap((s) => s.games.map((g) => g.damage))).toEqual([3, 4, 5, 6]);
+    expect(sessions[0].games).toHaveLength(3);
+  });
+});
+
+describe('computeWeeklyDigest', () => {
+  const row = (
+    userId: string,
+    name: string,
+    sessionId: string,
+    fields: { games: number; damage: number; donuts?: number; rp: number }
+  ) => ({
+    user_id: userId,
+    display_name: name,
+    session_id: sessionId,
+    created_at: sessionId === 's1' ? '2026-10-12T20:00:00Z' : '2026-10-14T21:00:00Z',
+    games: fields.games,
+    total_damage: fields.damage,
+    total_kills: 0,
+    donuts: fields.donuts ?? 0,
+    milestone_games: null,
+    total_rp: fields.rp,
+  });
+
+  const rows = [
+    row('u1', 'Ana', 's1', { games: 5, damage: 3000, rp: 40 }),
+    row('u2', 'Ben', 's1', { games: 5, damage: 4000, donuts: 1, rp: -20 }),
+    row('u1', 'Ana', 's2', { games: 4, damage: 2000, rp: 60 }),
+    row('u2', 'Ben', 's2', { games: 4, damage: 600, donuts: 2, rp: 90 }),
+  ];
+
+  it('ranks players by RP gained over the week', () => {
+    const digest = computeWeeklyDigest('2026-10-12', '2026-10-18', rows);
+    expect(digest.players.map((p) => [p.name, p.totalRP, p.games])).toEqual([
+      ['Ana', 100, 9],
+      ['Ben', 70, 9],
+    ]);
+  });
+
+  it('picks the top damage, most donuts and best session', () => {
+    const digest = computeWeeklyDigest('2026-10-12', '2026-10-18', rows);
+    expect(digest.topDamage?.name).toBe('Ana');
+    expect(digest.mostDonuts?.name).toBe('Ben');
+    expect(digest.bestSession).toEqual({
+      date: '2026-10-14',
+      totalRP: 150,
+      players: [
+        { name: 'Ben', rp: 90 },
+        { name: 'Ana', rp: 60 },
+      ],
+    });
+  });
+
+  it('leaves out most donuts when nobody had one', () => {
+    const digest = computeWeeklyDigest('2026-10-12', '2026-10-18', [
+      row('u1', 'Ana', 's1', { games: 3, damage: 900, rp: 10 }),
+    ]);
+    expect(digest.mostDonuts).toBeNull();
+  });
+
+  it('is empty with no rows', () => {
+    const digest = computeWeeklyDigest('2026-10-12', '2026-10-18', []);
+    expect(digest.players).toEqual([]);
+    expect(digest.topDamage).toBeNull();
+    expect(digest.bestSession).toBeNull();
+  });
+});
@@ -0,0 +1,450 @@
+// The one place game stats are derived. The tracker, the dashboard, season
+// progression and the API routes all go through these helpers so a donut,
+// a milestone or an average means the same thing everywhere.
+
+import type { GameEntry, SessionDoc } from '@/lib/sessionDoc';
+import { addMilestones, sumMilestones, type MilestoneCounts } from '@/lib/milestones';
+
+/** Running totals for a player over any span of games (a session, a week, a season) */
+export type StatTotals = {
+  games: number;
+  totalDamage: number;
+  totalKills: number;
+  donuts: number;
+  milestones: MilestoneCounts;
+};
+
+/** Totals plus the metrics derived from them */
+export type DerivedStats = StatTotals & {
+  /** Damage per game (unrounded) */
+  avgDamage: number;
+  /** Kills per game (unrounded) */
+  avgKills: number;
+  /** Share of games that were donuts, 0–1 */
+  donutRate: number;
+};
+
+/** One game as saved in `season_player_stats.game_log` */
+export type GameLogEntry = GameEntry & { placement: number };
+
+/** Placement metrics over a list of games */
+export type PlacementStats = {
+  games: number;
+  wins: number;
+  avgPlacement: number;
+  /** Shares of games finished 1st / top 3 / top 5, each 0–1 */
+  winRate: number;
+  top3Rate: number;
+  top5Rate: number;
+  /** Games per placement; index 0 is 1st place, index 19 is 20th */
+  histogram: number[];
+};
+
+/** Squad-level totals for one session, saved as a `season_session_summaries` row */
+export type SquadSummary = {
+  games: number;
+  wins: number;
+  avgPlacement: number;
+  totalRP: number;
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+  roster: { userId: string | null; name: string }[];
+};
+
+/** How steady a player's damage is over a set of games */
+export type ConsistencyStats = {
+  games: number;
+  meanDamage: number;
+  medianDamage: number;
+  /** Standard deviation of damage per game */
+  damageStdDev: number;
+  /** Damage at the 10th, 25th, 75th and 90th percentiles */
+  p10Damage: number;
+  p25Damage: number;
+  p75Damage: number;
+  p90Damage: number;
+  /** 0–100; 100 means every game did the same damage */
+  consistencyScore: number;
+};
+
+/** The most recent games or sessions to look at, or null for all of them */
+export type StatWindow = { unit: 'games' | 'sessions'; size: number } | null;
+
+/** One player's line in the weekly digest */
+export type WeeklyPlayer = DerivedStats & {
+  userId: string;
+  name: string;
+  totalRP: number;
+};
+
+/** A Monday–Sunday leaderboard, as posted by the weekly digest */
+export type WeeklyDigest = {
+  weekStart: string;
+  weekEnd: string;
+  /** Most RP gained first */
+  players: WeeklyPlayer[];
+  topDamage: WeeklyPlayer | null;
+  /** Null when nobody had a donut */
+  mostDonuts: WeeklyPlayer | null;
+  bestSession: { date: string; totalRP: number; players: { name: string; rp: number }[] } | null;
+};
+
+/** How two players' damage compared in the sessions they both played */
+export type DamageMatchup = {
+  shared: number;
+  aAhead: number;
+  bAhead: number;
+  tied: number;
+};
+
+/** A `season_player_stats` row, as selected by the season views */
+export type SeasonStatsRow = {
+  games: number;
+  total_damage: number;
+  total_kills: number;
+  donuts: number;
+  milestone_games: MilestoneCounts | null;
+};
+
+export const EMPTY_TOTALS: StatTotals = {
+  games: 0,
+  totalDamage: 0,
+  totalKills: 0,
+  donuts: 0,
+  milestones: {},
+};
+
+/**
+ * A donut is a game with no damage and no kills
+ */
+export function isDonut(entry: GameEntry): boolean {
+  return entry.damage === 0 && entry.kills === 0;
+}
+
+/**
+ * `total / games`, or 0 when no games were played
+ */
+export function perGame(total: number, games: number): number {
+  return games > 0 ? total / games : 0;
+}
+
+/**
+ * Add (or with `sign = -1`, remove) one game to a set of totals
+ */
+export function addGameToTotals<T extends StatTotals>(
+  totals: T,
+  entry: GameEntry,
+  tiers: number[],
+  sign: 1 | -1 = 1
+): T {
+  return {
+    ...totals,
+    games: Math.max(0, totals.games + sign),
+    totalDamage: Math.max(0, totals.totalDamage + sign * entry.damage),
+    totalKills: Math.max(0, totals.totalKills + sign * entry.kills),
+    donuts: Math.max(0, totals.donuts + (isDonut(entry) ? sign : 0)),
+    milestones: addMilestones(totals.milestones, entry.damage, tiers, sign),
+  };
+}
+
+/**
+ * Totals for a list of per-game records
+ */
+export function computeTotals(entries: GameEntry[], tiers: number[]): StatTotals {
+  return entries.reduce((acc, entry) => addGameToTotals(acc, entry, tiers), EMPTY_TOTALS);
+}
+
+/**
+ * Combine totals from several spans, e.g. every session in a season
+ */
+export function sumTotals(all: StatTotals[]): StatTotals {
+  return {
+    games: all.reduce((s, t) => s + t.games, 0),
+    totalDamage: all.reduce((s, t) => s + t.totalDamage, 0),
+    totalKills: all.reduce((s, t) => s + t.totalKills, 0),
+    donuts: all.reduce((s, t) => s + t.donuts, 0),
+    milestones: sumMilestones(all.map((t) => t.milestones)),
+  };
+}
+
+/**
+ * Averages and rates for a set of totals
+ */
+export function deriveStats(totals: StatTotals): DerivedStats {
+  return {
+    ...totals,
+    avgDamage: perGame(totals.totalDamage, totals.games),
+    avgKills: perGame(totals.totalKills, totals.games),
+    donutRate: perGame(totals.donuts, totals.games),
+  };
+}
+
+/**
+ * Every derived metric for a list of per-game records
+ */
+export function computeStats(entries: GameEntry[], tiers: number[]): DerivedStats {
+  return deriveStats(computeTotals(entries, tiers));
+}
+
+/**
+ * Totals from a saved `season_player_stats` row
+ */
+export function totalsFromRow(row: SeasonStatsRow): StatTotals {
+  return {
+    games: row.games,
+    totalDamage: row.total_damage,
+    totalKills: row.total_kills,
+    donuts: row.donuts,
+    milestones: row.milestone_games ?? {},
+  };
+}
+
+/**
+ * Average placement over a list of placements, or 0 when there are none
+ */
+export function averagePlacement(placements: number[]): number {
+  return perGame(
+    placements.reduce((s, p) => s + p, 0),
+    placements.length
+  );
+}
+
+/**
+ * Win rate, top-3/top-5 rates and the placement distribution
+ */
+export function computePlacementStats(placements: number[]): PlacementStats {
+  const games = placements.length;
+  const within = (n: number) => placements.filter((p) => p <= n).length;
+  const histogram = Array.from({ length: 20 }, () => 0);
+  for (const p of placements) histogram[p - 1] += 1;
+
+  return {
+    games,
+    wins: within(1),
+    avgPlacement: averagePlacement(placements),
+    winRate: perGame(within(1), games),
+    top3Rate: perGame(within(3), games),
+    top5Rate: perGame(within(5), games),
+    histogram,
+  };
+}
+
+/**
+ * Average of each value and up to `window - 1` values before it
+ */
+export function rollingAverage(values: number[], window: number): number[] {
+  return values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+    return slice.reduce((s, v) => s + v, 0) / slice.length;
+  });
+}
+
+/**
+ * Value at percentile `p` (0–1) of an ascending list, interpolating between neighbours
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Median, spread and a consistency score for damage over a list of games.
+ * The score falls as the spread grows relative to the mean (coefficient of
+ * variation), reaching 0 when the standard deviation is as large as the mean.
+ */
+export function computeConsistency(games: GameEntry[]): ConsistencyStats {
+  const damage = games.map((g) => g.damage).sort((a, b) => a - b);
+  const mean = perGame(damage.reduce((s, d) => s + d, 0), damage.length);
+  const variance = perGame(damage.reduce((s, d) => s + (d - mean) ** 2, 0), damage.length);
+  const stdDev = Math.sqrt(variance);
+
+  return {
+    games: damage.length,
+    meanDamage: mean,
+    medianDamage: percentile(damage, 0.5),
+    damageStdDev: stdDev,
+    p10Damage: percentile(damage, 0.1),
+    p25Damage: percentile(damage, 0.25),
+    p75Damage: percentile(damage, 0.75),
+    p90Damage: percentile(damage, 0.9),
+    consistencyScore:
+      damage.length === 0 || mean === 0 ? 0 : Math.round(100 * Math.max(0, 1 - stdDev / mean)),
+  };
+}
+
+/**
+ * The sessions (oldest first) that fall inside a window. A games window keeps
+ * the last `size` games, trimming the oldest session it reaches into.
+ */
+export function sessionsInWindow<T extends { games: GameLogEntry[] }>(
+  sessions: T[],
+  window: StatWindow
+): T[] {
+  if (!window) return sessions;
+  if (window.unit === 'sessions') return sessions.slice(-window.size);
+
+  const kept: T[] = [];
+  let remaining = window.size;
+  for (let i = sessions.length - 1; i >= 0 && remaining > 0; i--) {
+    const games = sessions[i].games.slice(-remaining);
+    remaining -= games.length;
+    kept.unshift({ ...sessions[i], games });
+  }
+  return kept;
+}
+
+/**
+ * Placements of the games a player took part in, in the order they were played.
+ * Docs without per-game history fall back to the session's placements.
+ */
+export function playerPlacements(doc: SessionDoc, odlId: string): number[] {
+  if (doc.games.length === 0) return doc.placements;
+  return doc.games
+    .filter((g) => g.entries.some((e) => e.odlId === odlId))
+    .map((g) => g.placement);
+}
+
+/**
+ * Per-game damage, kills and placement for a player, in the order played.
+ * Empty for docs saved before per-game history existed.
+ */
+export function playerGameLog(doc: SessionDoc, odlId: string): GameLogEntry[] {
+  return doc.games.flatMap((g) => {
+    const rec = g.entries.find((e) => e.odlId === odlId);
+    return rec ? [{ ...rec.entry, placement: g.placement }] : [];
+  });
+}
+
+/**
+ * Squad summary for a session that ran from `startedAt` until its last game
+ * (or `endedAt` when no games were recorded)
+ */
+export function computeSquadSummary(
+  doc: SessionDoc,
+  startedAt: string,
+  endedAt: string
+): SquadSummary {
+  const lastGame = doc.games[doc.games.length - 1];
+  const end = lastGame?.playedAt ?? endedAt;
+
+  return {
+    games: doc.sessionGames,
+    wins: doc.wins,
+    avgPlacement: perGame(doc.totalPlacement, doc.sessionGames),
+    totalRP: doc.players.reduce((s, p) => s + p.totalRP, 0),
+    startedAt,
+    endedAt: end,
+    durationSeconds: Math.max(
+      0,
+      Math.round((new Date(end).getTime() - new Date(startedAt).getTime()) / 1000)
+    ),
+    roster: doc.players.map((p) => ({ userId: p.odlierId, name: p.name })),
+  };
+}
+
+/**
+ * Compare two players' damage session by session, over the sessions both took part in
+ */
+export function compareSessionDamage(
+  a: { sessionKey: string; totalDamage: number }[],
+  b: { sessionKey: string; totalDamage: number }[]
+): DamageMatchup {
+  const bByKey = new Map(b.map((s) => [s.sessionKey, s.totalDamage]));
+  const result: DamageMatchup = { shared: 0, aAhead: 0, bAhead: 0, tied: 0 };
+  for (const session of a) {
+    const other = bByKey.get(session.sessionKey);
+    if (other === undefined) continue;
+    result.shared++;
+    if (session.totalDamage > other) result.aAhead++;
+    else if (session.totalDamage < other) result.bAhead++;
+    else result.tied++;
+  }
+  return result;
+}
+
+/**
+ * Leaderboard for one week from its `season_player_stats` rows
+ */
+export function computeWeeklyDigest(
+  weekStart: string,
+  weekEnd: string,
+  rows: (SeasonStatsRow & {
+    user_id: string;
+    display_name: string;
+    session_id: string | null;
+    created_at: string;
+    total_rp: number | null;
+  })[]
+): WeeklyDigest {
+  const byPlayer = new Map<string, { name: string; totals: StatTotals[]; rp: number }>();
+  const bySession = new Map<string, { date: string; players: { name: string; rp: number }[] }>();
+
+  for (const row of rows) {
+    const player = byPlayer.get(row.user_id) ?? { name: row.display_name, totals: [], rp: 0 };
+    player.totals.push(totalsFromRow(row));
+    player.rp += row.total_rp || 0;
+    byPlayer.set(row.user_id, player);
+
+    const key = row.session_id || row.created_at.slice(0, 16);
+    const session = bySession.get(key) ?? { date: row.created_at.split('T')[0], players: [] };
+    session.players.push({ name: row.display_name, rp: row.total_rp || 0 });
+    bySession.set(key, session);
+  }
+
+  const players: WeeklyPlayer[] = Array.from(byPlayer, ([userId, p]) => ({
+    ...deriveStats(sumTotals(p.totals)),
+    userId,
+    name: p.name,
+    totalRP: p.rp,
+  })).sort((a, b) => b.totalRP - a.totalRP);
+
+  const top = (score: (p: WeeklyPlayer) => number) =>
+    players.reduce<WeeklyPlayer | null>((best, p) => (!best || score(p) > score(best) ? p : best), null);
+  const mostDonuts = top((p) => p.donuts);
+
+  const bestSession = Array.from(bySession.values())
+    .map((s) => ({
+      date: s.date,
+      totalRP: s.players.reduce((sum, p) => sum + p.rp, 0),
+      players: [...s.players].sort((a, b) => b.rp - a.rp),
+    }))
+    .reduce<WeeklyDigest['bestSession']>((best, s) => (!best || s.totalRP > best.totalRP ? s : best), null);
+
+  return {
+    weekStart,
+    weekEnd,
+    players,
+    topDamage: top((p) => p.totalDamage),
+    mostDonuts: mostDonuts && mostDonuts.donuts > 0 ? mostDonuts : null,
+    bestSession,
+  };
+}
+
+/**
+ * Display helpers so averages are rounded the same way everywhere
+ */
+export function formatAvgDamage(value: number): string {
+  return Math.round(value).toLocaleString();
+}
+
+export function formatAvgKills(value: number): string {
+  return value.toFixed(1);
+}
+
+export function formatAvgPlacement(value: number): string {
+  return value.toFixed(1);
+}
+
+export function formatRate(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
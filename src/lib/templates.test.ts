@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { parseTemplate, renderTemplate } from '@/lib/templates';
+import { DEFAULT_SESSION_TEMPLATE, sessionSummaryEmbed, type SessionSummaryInput } from '@/lib/discord';
+import type { SessionDoc } from '@/lib/sessionDoc';
+
+describe('parseTemplate', () => {
+  it('nests blocks and keeps text and values in order', () => {
+    expect(parseTemplate('Hi {name}{#each players}{player.name}{/each}!')).toEqual([
+      { type: 'text', text: 'Hi ' },
+      { type: 'value', path: 'name' },
+      { type: 'each', list: 'players', item: 'player', body: [{ type: 'value', path: 'player.name' }] },
+      { type: 'text', text: '!' },
+    ]);
+  });
+
+  it('binds each items to an alias or the singular name', () => {
+    expect(parseTemplate('{#each player.milestones as m}{/each}')).toMatchObject([{ item: 'm' }]);
+    expect(parseTemplate('{#each records}{/each}')).toMatchObject([{ item: 'record' }]);
+    expect(parseTemplate('{#each squad}{/each}')).toMatchObject([{ item: 'squadItem' }]);
+  });
+
+  it('splits if blocks at else', () => {
+    expect(parseTemplate('{#if a > 1}yes{else}no{/if}')).toEqual([
+      {
+        type: 'if',
+        condition: 'a > 1',
+        then: [{ type: 'text', text: 'yes' }],
+        otherwise: [{ type: 'text', text: 'no' }],
+      },
+    ]);
+  });
+
+  it('drops the line of a block tag that stands alone', () => {
+    expect(renderTemplate('a\n{#if x}\nb\n{/if}\nc', { x: 1 })).toBe('a\nb\nc');
+    expect(renderTemplate('a\n  {#if x}  \nb\n{/if}\nc', { x: 0 })).toBe('a\nc');
+  });
+
+  it.each([
+    ['{#each players}', '{#each players} is never closed with {/each}'],
+    ['{#if x}', '{#if x} is never closed with {/if}'],
+    ['{/each}', '{/each} has no matching {#each}'],
+    ['{#each players}{/if}', '{/if} has no matching {#if}'],
+    ['{else}', '{else} must be inside an {#if} block'],
+    ['{#if x}a{else}b{else}c{/if}', '{else} must be inside an {#if} block'],
+    ['{#if x ~ 1}{/if}', "Can't read the condition in {#if x ~ 1}"],
+  ])('rejects %s', (source, message) => {
+    expect(() => parseTemplate(source)).toThrow(message);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('renders values at dotted paths and blanks unknown ones', () => {
+    expect(renderTemplate('{a.b} {a.c} {missing.path}', { a: { b: 'x', c: 3 } })).toBe('x 3');
+  });
+
+  it('repeats each blocks with the item and the outer scope in reach', () => {
+    const context = { tag: '!', players: [{ name: 'Ana' }, { name: 'Ben' }] };
+    expect(renderTemplate('{#each players}{player.name}{tag} {/each}', context)).toBe('Ana! Ben!');
+    expect(renderTemplate('{#each nothing}x{/each}', context)).toBe('');
+  });
+
+  it('compares formatted numbers as numbers', () => {
+    const context = { damage: '3,412', rp: '+120', zero: '0' };
+    expect(renderTemplate('{#if damage > 999}big{/if}', context)).toBe('big');
+    expect(renderTemplate('{#if rp >= 120}up{/if}', context)).toBe('up');
+    expect(renderTemplate('{#if rp < 0}down{else}up{/if}', context)).toBe('up');
+    expect(renderTemplate('{#if zero}set{else}unset{/if}', context)).toBe('unset');
+  });
+
+  it('compares text with == and != only', () => {
+    const context = { name: 'Ana' };
+    expect(renderTemplate('{#if name == "Ana"}yes{/if}', context)).toBe('yes');
+    expect(renderTemplate("{#if name != 'Ana'}yes{else}no{/if}", context)).toBe('no');
+    expect(renderTemplate('{#if name > "A"}yes{else}no{/if}', context)).toBe('no');
+  });
+
+  it('tests bare paths for a non-empty value, and ! negates', () => {
+    const context = { list: [], name: '', flag: true };
+    expect(renderTemplate('{#if list}a{/if}{#if !list}b{/if}', context)).toBe('b');
+    expect(renderTemplate('{#if name}a{else}b{/if}{#if flag}c{/if}', context)).toBe('bc');
+  });
+});
+
+describe('default session template', () => {
+  const doc: SessionDoc = {
+    milestoneTiers: [1000, 2000],
+    players: [
+      {
+        odlId: 'p1',
+        odlierId: 'u1',
+        name: 'Ana',
+        games: 2,
+        totalDamage: 3412,
+        totalKills: 7,
+        milestones: { 1000: 1, 2000: 1 },
+        donuts: 0,
+        totalRP: 120,
+      },
+      {
+        odlId: 'p2',
+        odlierId: 'u2',
+        name: 'Ben',
+        games: 2,
+        totalDamage: 0,
+        totalKills: 0,
+        milestones: { 1000: 0, 2000: 0 },
+        donuts: 2,
+        totalRP: -40,
+      },
+    ],
+    sessionGames: 2,
+    wins: 1,
+    totalPlacement: 6,
+    placements: [1, 5],
+    games: [],
+  };
+
+  const input: SessionSummaryInput = {
+    doc,
+    seasonNumber: 24,
+    amended: false,
+    endedAt: '2026-10-18T22:00:00Z',
+    newRecords: [],
+  };
+
+  it('renders the squad, MVP and each player', () => {
+    const embed = sessionSummaryEmbed(input, DEFAULT_SESSION_TEMPLATE);
+    expect(embed.title).toBe('Apex Session Summary');
+    expect(embed.description).toBe(
+      'Games: 2 | Wins: 1 | Avg Placement: 3.0\n**Squad RP: +80**\n\n👑 **MVP: Ana** — 3,412 damage, 7 kills'
+    );
+    expect(embed.fields).toEqual([
+      {
+        name: '#1 Ana 👑',
+        value: 'Damage: **3,412** (avg 1,706)\nKills: **7**\n1K games: 1\n2K games: 1\nRP: **+120**',
+        inline: true,
+      },
+      {
+        name: '#2 Ben',
+        value: 'Damage: **0** (avg 0)\nKills: **0**\n1K games: 0\n2K games: 0\nDonuts: 2\nRP: **-40**',
+        inline: true,
+      },
+    ]);
+    expect(embed.footer).toEqual({ text: 'Season 24 • Oct 18, 2026' });
+  });
+
+  it('marks corrections and lists new records', () => {
+    const embed = sessionSummaryEmbed(
+      {
+        ...input,
+        amended: true,
+        newRecords: [
+          { name: 'Ana', record: { key: 'damage', value: 2600, sessionKey: 's1', date: '2026-10-18' } },
+        ],
+      },
+      DEFAULT_SESSION_TEMPLATE
+    );
+    expect(embed.title).toBe('Apex Session Summary (Corrected)');
+    expect(embed.description).toMatch(
+      /\*\*🏆 New Personal Records\*\*\n• Ana — Highest damage game: 2,600$/
+    );
+  });
+});
@@ -0,0 +1,169 @@
+// A small text template language for Discord messages.
+//
+//   {player.name}                  value at a dotted path
+//   {#each players} … {/each}      repeat for each item, bound to the singular
+//                                  name (`player`), or `{#each players as p}`
+//   {#if player.donuts > 0} … {else} … {/if}
+//                                  comparisons: == != > >= < <=; a bare path
+//                                  (or `!path`) tests for a non-empty value
+//
+// A block tag alone on its line takes the line with it, so templates can put
+// each tag on its own line without leaving blank lines in the output.
+
+type Scope = Record<string, unknown>;
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; path: string }
+  | { type: 'each'; list: string; item: string; body: TemplateNode[] }
+  | { type: 'if'; condition: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TAG = /\{(#each\s+[\w.]+(?:\s+as\s+\w+)?|#if\s+[^{}]+|else|\/each|\/if|[\w.]+)\}/g;
+const STANDALONE_BLOCK_TAG = /^[ \t]*(\{(?:#each[^{}]*|#if[^{}]*|else|\/each|\/if)\})[ \t]*\r?\n/gm;
+const CONDITION = /^(!)?\s*([\w.]+)(?:\s*(==|!=|>=|<=|>|<)\s*(.+))?$/;
+
+function singular(name: string): string {
+  const last = name.split('.').pop() ?? name;
+  return last.endsWith('s') ? last.slice(0, -1) : `${last}Item`;
+}
+
+/**
+ * Parse a template, throwing an Error that names the first unbalanced or malformed tag
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const text = source.replace(STANDALONE_BLOCK_TAG, '$1');
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last; `body` is where new nodes currently go
+  const stack: { node: TemplateNode & { type: 'each' | 'if' }; body: TemplateNode[] }[] = [];
+  let body = root;
+  let last = 0;
+
+  for (const match of text.matchAll(TAG)) {
+    if (match.index > last) body.push({ type: 'text', text: text.slice(last, match.index) });
+    last = match.index + match[0].length;
+    const tag = match[1];
+    const open = stack[stack.length - 1];
+
+    if (tag.startsWith('#each')) {
+      const [, list, , alias] = tag.split(/\s+/);
+      const node: TemplateNode = { type: 'each', list, item: alias ?? singular(list), body: [] };
+      body.push(node);
+      stack.push({ node, body: node.body });
+      body = node.body;
+    } else if (tag.startsWith('#if')) {
+      const condition = tag.slice(3).trim();
+      if (!CONDITION.test(condition)) throw new Error(`Can't read the condition in {${tag}}`);
+      const node: TemplateNode = { type: 'if', condition, then: [], otherwise: [] };
+      body.push(node);
+      stack.push({ node, body: node.then });
+      body = node.then;
+    } else if (tag === 'else') {
+      if (open?.node.type !== 'if' || open.body === open.node.otherwise) {
+        throw new Error('{else} must be inside an {#if} block');
+      }
+      open.body = open.node.otherwise;
+      body = open.body;
+    } else if (tag === '/each' || tag === '/if') {
+      const expected = tag === '/each' ? 'each' : 'if';
+      if (open?.node.type !== expected) throw new Error(`{${tag}} has no matching {#${expected}}`);
+      stack.pop();
+      body = stack[stack.length - 1]?.body ?? root;
+    } else {
+      body.push({ type: 'value', path: tag });
+    }
+  }
+
+  if (last < text.length) body.push({ type: 'text', text: text.slice(last) });
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) {
+    throw new Error(
+      unclosed.node.type === 'each'
+        ? `{#each ${unclosed.node.list}} is never closed with {/each}`
+        : `{#if ${unclosed.node.condition}} is never closed with {/if}`
+    );
+  }
+  return root;
+}
+
+function lookup(scope: Scope, path: string): unknown {
+  let value: unknown = scope;
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Scope)[key];
+  }
+  return value;
+}
+
+// Numbers are often pre-formatted for display ("3,412", "+120"); compare them as numbers
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const n = Number(value.replace(/,/g, ''));
+  return Number.isFinite(n) ? n : null;
+}
+
+function isSet(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  const n = asNumber(value);
+  if (n !== null) return n !== 0;
+  return Boolean(value);
+}
+
+function literal(raw: string): unknown {
+  const quoted = raw.match(/^(['"])(.*)\1$/);
+  return quoted ? quoted[2] : raw;
+}
+
+function test(condition: string, scope: Scope): boolean {
+  const [, not, path, op, raw] = condition.match(CONDITION) ?? [];
+  const value = lookup(scope, path);
+  if (!op) return not ? !isSet(value) : isSet(value);
+
+  const expected = literal(raw.trim());
+  const a = asNumber(value);
+  const b = asNumber(expected);
+  let result: boolean;
+  if (a !== null && b !== null) {
+    result =
+      op === '==' ? a === b :
+      op === '!=' ? a !== b :
+      op === '>' ? a > b :
+      op === '>=' ? a >= b :
+      op === '<' ? a < b :
+      a <= b;
+  } else {
+    const left = String(value ?? '');
+    const right = String(expected);
+    result = op === '==' ? left === right : op === '!=' ? left !== right : false;
+  }
+  return not ? !result : result;
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'value': {
+          const value = lookup(scope, node.path);
+          return value === undefined || value === null ? '' : String(value);
+        }
+        case 'each': {
+          const list = lookup(scope, node.list);
+          if (!Array.isArray(list)) return '';
+          return list.map((item) => renderNodes(node.body, { ...scope, [node.item]: item })).join('');
+        }
+        case 'if':
+          return renderNodes(test(node.condition, scope) ? node.then : node.otherwise, scope);
+      }
+    })
+    .join('');
+}
+
+/**
+ * Render a template against a context. Unknown paths render as empty text.
+ */
+export function renderTemplate(source: string, context: Scope): string {
+  return renderNodes(parseTemplate(source), context).trim();
+}
@@ -0,0 +1,33 @@
+// Monday–Sunday weeks over ISO dates (YYYY-MM-DD), shared by the weekly
+// leaderboard view and the weekly Discord digest. Dates are handled at midday
+// so a timezone offset can never move them to a neighbouring day.
+
+/** Returns the Monday of the week containing dateStr (ISO format) */
+export function getWeekStart(dateStr: string): string {
+  const date = new Date(dateStr + 'T12:00:00');
+  const day = date.getDay(); // 0=Sun
+  const diff = day === 0 ? -6 : 1 - day;
+  const monday = new Date(date);
+  monday.setDate(date.getDate() + diff);
+  return monday.toISOString().split('T')[0];
+}
+
+/** Returns the Sunday of the week (6 days after Monday) */
+export function getWeekEnd(weekStart: string): string {
+  return addDays(weekStart, 6);
+}
+
+/** The ISO date `days` after (or before, if negative) dateStr */
+export function addDays(dateStr: string, days: number): string {
+  const date = new Date(dateStr + 'T12:00:00');
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+export function formatWeekLabel(weekStart: string): string {
+  const end = getWeekEnd(weekStart);
+  const s = new Date(weekStart + 'T12:00:00');
+  const e = new Date(end + 'T12:00:00');
+  const fmt = (d: Date) => d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${fmt(s)} – ${fmt(e)}`;
+}
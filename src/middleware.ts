@@ -1,8 +1,14 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 
-// Routes that don't require PIN
-const PUBLIC_ROUTES = ['/gate', '/api/verify-pin'];
+// Routes that don't require PIN (scheduled routes check their own secret)
+const PUBLIC_ROUTES = [
+  '/gate',
+  '/api/verify-pin',
+  '/api/sweep-sessions',
+  '/api/weekly-digest',
+  '/api/discord-outbox',
+];
 
 export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
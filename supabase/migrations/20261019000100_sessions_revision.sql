@@ -0,0 +1,5 @@
+-- Optimistic concurrency for session doc writes.
+-- PUT /api/post-session only writes while the revision it read is still
+-- current, and bumps it on every successful write.
+alter table public.sessions
+  add column if not exists revision integer not null default 0;
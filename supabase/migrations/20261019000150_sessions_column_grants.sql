@@ -0,0 +1,18 @@
+-- Keep session secrets out of the browser. The write key is what makes a
+-- caller the host in the API routes, and session codes are only meant to be
+-- looked up through /api/post-session, so signed-in users may read every
+-- other column but not these two. Column privileges also apply to realtime
+-- change payloads. All session writes go through the API routes with the
+-- service role. Safe to run more than once.
+
+revoke all on public.sessions from anon, authenticated;
+
+grant select (
+  id,
+  season_number,
+  host_user_id,
+  doc,
+  revision,
+  created_at,
+  updated_at
+) on public.sessions to authenticated;
@@ -0,0 +1,18 @@
+-- Sessions are finalized once by POST /api/end-session. Repeat calls return
+-- the stored result instead of saving the season stats again.
+alter table public.sessions
+  add column if not exists finalized_at timestamptz,
+  add column if not exists end_result jsonb;
+
+-- Drop stats rows duplicated by earlier double submits, keeping the first one
+delete from public.season_player_stats a
+  using public.season_player_stats b
+  where a.session_id = b.session_id
+    and a.user_id = b.user_id
+    and a.ctid > b.ctid;
+
+create unique index if not exists season_player_stats_session_user_key
+  on public.season_player_stats (session_id, user_id);
+
+-- Clients read whether a session has ended (see the sessions column grants)
+grant select (finalized_at, end_result) on public.sessions to authenticated;
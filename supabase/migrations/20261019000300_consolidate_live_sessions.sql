@@ -0,0 +1,133 @@
+-- One storage model for live sessions: the `sessions` row and its JSON doc.
+-- Season stats are only ever derived from it (season_player_stats, written by
+-- /api/end-session). This folds the old normalized tables (live_sessions,
+-- live_session_players, game_stats, player_game_stats, season_rp_entries)
+-- into that model. Safe to run more than once.
+
+-- 1. Bring existing session docs up to the current shape
+update public.sessions
+  set doc = jsonb_build_object('placements', '[]'::jsonb, 'games', '[]'::jsonb) || doc
+  where not (doc ? 'placements' and doc ? 'games');
+
+-- 2. Sessions ended before finalization existed already have season stats
+update public.sessions s
+  set finalized_at = st.saved_at
+  from (
+    select session_id, min(created_at) as saved_at
+    from public.season_player_stats
+    group by session_id
+  ) st
+  where st.session_id = s.id
+    and s.finalized_at is null;
+
+-- 3. Convert legacy live sessions into sessions rows (same id).
+-- The legacy tables never recorded placements, so per-game frames cannot be
+-- rebuilt; player totals are recomputed from player_game_stats with the
+-- current milestone rules. Legacy sessions are closed as finalized.
+insert into public.sessions (
+  id, session_code, season_number, host_user_id, write_key, doc,
+  revision, finalized_at, created_at, updated_at
+)
+select
+  ls.id,
+  case
+    when exists (select 1 from public.sessions x where x.session_code = ls.session_code)
+      then lpad((100000 + floor(random() * 900000))::int::text, 6, '0')
+    else ls.session_code
+  end,
+  se.season_number,
+  ls.host_user_id,
+  replace(gen_random_uuid()::text, '-', ''),
+  jsonb_build_object(
+    'players', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'odlId', lsp.id::text,
+        'odlierId', lsp.user_id::text,
+        'name', coalesce(p.display_name, 'Unknown'),
+        'games', st.games,
+        'totalDamage', coalesce(st.total_damage, 0),
+        'totalKills', coalesce(st.total_kills, 0),
+        'oneKGames', st.one_k_games,
+        'twoKGames', st.two_k_games,
+        'donuts', st.donuts,
+        'totalRP', lsp.current_rp,
+        'rpHistory', case
+          when lsp.current_rp <> 0 then jsonb_build_array(lsp.current_rp)
+          else '[]'::jsonb
+        end
+      ) order by lsp.joined_at)
+      from public.live_session_players lsp
+      left join public.profiles p on p.id = lsp.user_id
+      cross join lateral (
+        select
+          count(*) as games,
+          sum(pgs.damage) as total_damage,
+          sum(pgs.kills) as total_kills,
+          count(*) filter (where pgs.damage >= 1000 and pgs.damage < 2000) as one_k_games,
+          count(*) filter (where pgs.damage >= 2000) as two_k_games,
+          count(*) filter (where pgs.damage = 0 and pgs.kills = 0) as donuts
+        from public.player_game_stats pgs
+        join public.game_stats gs on gs.id = pgs.game_stat_id
+        where gs.live_session_id = ls.id
+          and pgs.user_id = lsp.user_id
+      ) st
+      where lsp.live_session_id = ls.id
+    ), '[]'::jsonb),
+    'sessionGames', (
+      select count(*) from public.game_stats gs where gs.live_session_id = ls.id
+    ),
+    'wins', 0,
+    'totalPlacement', 0,
+    'placements', '[]'::jsonb,
+    'games', '[]'::jsonb
+  ),
+  0,
+  coalesce(ls.ended_at, now()),
+  ls.created_at,
+  coalesce(ls.ended_at, ls.created_at)
+from public.live_sessions ls
+join public.seasons se on se.id = ls.season_id
+where not exists (select 1 from public.sessions s where s.id = ls.id);
+
+-- 4. Season stats for legacy sessions that were actually ended.
+-- RP comes from season_rp_entries when it was saved there.
+insert into public.season_player_stats (
+  season_id, user_id, session_id, games, total_damage, total_kills,
+  one_k_games, two_k_games, donuts, total_rp, created_at
+)
+select
+  ls.season_id,
+  (pl->>'odlierId')::uuid,
+  ls.id,
+  (pl->>'games')::int,
+  (pl->>'totalDamage')::int,
+  (pl->>'totalKills')::int,
+  (pl->>'oneKGames')::int,
+  (pl->>'twoKGames')::int,
+  (pl->>'donuts')::int,
+  coalesce(
+    (
+      select sum(r.delta_rp)
+      from public.season_rp_entries r
+      where r.posted_from_session_id = ls.id
+        and r.user_id = (pl->>'odlierId')::uuid
+    ),
+    (pl->>'totalRP')::int
+  ),
+  ls.ended_at
+from public.live_sessions ls
+join public.sessions s on s.id = ls.id
+cross join lateral jsonb_array_elements(s.doc->'players') pl
+where ls.ended_at is not null
+on conflict (session_id, user_id) do nothing;
+
+insert into public.season_players (season_id, user_id)
+select distinct season_id, user_id
+from public.season_player_stats
+on conflict (season_id, user_id) do nothing;
+
+-- The legacy tables are no longer read or written by the app. Drop them once
+-- the converted rows have been checked (discord_posts.live_session_id still
+-- points at live_sessions, so drop or repoint that column first):
+--   drop table public.player_game_stats, public.game_stats,
+--     public.live_session_players, public.season_rp_entries, public.live_sessions;
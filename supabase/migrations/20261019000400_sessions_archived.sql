@@ -0,0 +1,11 @@
+-- Sessions left idle without being ended are archived by /api/sweep-sessions.
+-- Archived sessions are read-only; the host can still end or discard them.
+alter table public.sessions
+  add column if not exists archived_at timestamptz;
+
+create index if not exists sessions_open_updated_at_idx
+  on public.sessions (updated_at)
+  where finalized_at is null and archived_at is null;
+
+-- Clients read whether a session was archived (see the sessions column grants)
+grant select (archived_at) on public.sessions to authenticated;
@@ -0,0 +1,50 @@
+-- Damage milestones are configured per season instead of fixed at 1K/2K.
+-- Counts are stored per tier and a game counts toward every tier it reaches,
+-- so a 2K game is also a 1K game. Safe to run more than once.
+
+alter table public.seasons
+  add column if not exists milestone_tiers integer[] not null default '{1000,2000}';
+
+-- 1. Per-tier counts on saved session stats
+alter table public.season_player_stats
+  add column if not exists milestone_games jsonb not null default '{}'::jsonb;
+
+-- Legacy one_k_games excluded 2K games
+update public.season_player_stats
+  set milestone_games = jsonb_build_object(
+    '1000', coalesce(one_k_games, 0) + coalesce(two_k_games, 0),
+    '2000', coalesce(two_k_games, 0)
+  )
+  where milestone_games = '{}'::jsonb;
+
+-- The old columns are no longer written
+alter table public.season_player_stats
+  alter column one_k_games set default 0,
+  alter column two_k_games set default 0;
+
+-- 2. Session docs: tiers on the doc, per-tier counts on each player
+update public.sessions s
+  set doc = jsonb_set(
+    s.doc || jsonb_build_object('milestoneTiers', coalesce(s.doc->'milestoneTiers', '[1000, 2000]'::jsonb)),
+    '{players}',
+    coalesce((
+      select jsonb_agg(
+        case
+          when p ? 'milestones' then p
+          else (p - 'oneKGames' - 'twoKGames') || jsonb_build_object(
+            'milestones', jsonb_build_object(
+              '1000', coalesce((p->>'oneKGames')::int, 0) + coalesce((p->>'twoKGames')::int, 0),
+              '2000', coalesce((p->>'twoKGames')::int, 0)
+            )
+          )
+        end
+        order by ord
+      )
+      from jsonb_array_elements(s.doc->'players') with ordinality as e(p, ord)
+    ), '[]'::jsonb)
+  )
+  where not (s.doc ? 'milestoneTiers')
+     or exists (
+       select 1 from jsonb_array_elements(s.doc->'players') p
+       where not (p ? 'milestones')
+     );
@@ -0,0 +1,36 @@
+-- Placement of every game a player took part in, in the order played.
+-- Written by /api/end-session; the season views derive win rate, top-3/top-5
+-- rates and the placement distribution from it. Safe to run more than once.
+
+alter table public.season_player_stats
+  add column if not exists placements integer[] not null default '{}';
+
+-- Backfill from the session docs: the games the player has an entry in, or the
+-- session's placements for docs saved before per-game history existed.
+update public.season_player_stats st
+  set placements = coalesce(
+    (
+      select case
+        when jsonb_array_length(coalesce(s.doc->'games', '[]'::jsonb)) = 0 then
+          array(select jsonb_array_elements_text(coalesce(s.doc->'placements', '[]'::jsonb))::int)
+        else
+          array(
+            select (g->>'placement')::int
+            from jsonb_array_elements(s.doc->'games') with ordinality as f(g, ord)
+            where exists (
+              select 1 from jsonb_array_elements(g->'entries') e
+              where e->>'odlId' = pl->>'odlId'
+            )
+            order by ord
+          )
+      end
+      from public.sessions s
+      cross join lateral jsonb_array_elements(s.doc->'players') pl
+      where s.id = st.session_id
+        and pl->>'odlierId' = st.user_id::text
+      limit 1
+    ),
+    '{}'
+  )
+  where st.placements = '{}'
+    and st.session_id is not null;
@@ -0,0 +1,73 @@
+-- One squad-level row per ended session: games, wins, placement, squad RP,
+-- duration and roster. Written by /api/end-session (replaced when a reopened
+-- session is ended again) and read by season progression. Safe to run more
+-- than once.
+
+create table if not exists public.season_session_summaries (
+  session_id uuid primary key references public.sessions (id) on delete cascade,
+  season_id uuid not null references public.seasons (id) on delete cascade,
+  games integer not null default 0,
+  wins integer not null default 0,
+  avg_placement numeric not null default 0,
+  total_rp integer not null default 0,
+  started_at timestamptz not null,
+  ended_at timestamptz not null,
+  duration_seconds integer not null default 0,
+  -- [{ "userId": uuid | null, "name": text }]
+  roster jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists season_session_summaries_season_idx
+  on public.season_session_summaries (season_id, ended_at);
+
+-- Signed-in users can read them and zero their RP when resetting a season;
+-- only the service role writes them otherwise
+alter table public.season_session_summaries enable row level security;
+
+drop policy if exists "Signed-in users can read session summaries"
+  on public.season_session_summaries;
+create policy "Signed-in users can read session summaries"
+  on public.season_session_summaries for select
+  to authenticated using (true);
+
+drop policy if exists "Signed-in users can reset session summary RP"
+  on public.season_session_summaries;
+create policy "Signed-in users can reset session summary RP"
+  on public.season_session_summaries for update
+  to authenticated using (true) with check (total_rp = 0);
+
+revoke update on public.season_session_summaries from anon, authenticated;
+grant update (total_rp) on public.season_session_summaries to authenticated;
+
+-- Backfill from sessions that were already ended
+insert into public.season_session_summaries (
+  session_id, season_id, games, wins, avg_placement, total_rp,
+  started_at, ended_at, duration_seconds, roster
+)
+select
+  s.id,
+  se.id,
+  coalesce((s.doc->>'sessionGames')::int, 0),
+  coalesce((s.doc->>'wins')::int, 0),
+  case
+    when coalesce((s.doc->>'sessionGames')::int, 0) > 0
+      then (s.doc->>'totalPlacement')::numeric / (s.doc->>'sessionGames')::int
+    else 0
+  end,
+  coalesce((
+    select sum((pl->>'totalRP')::int) from jsonb_array_elements(s.doc->'players') pl
+  ), 0),
+  s.created_at,
+  coalesce((s.doc->'games'->-1->>'playedAt')::timestamptz, s.finalized_at),
+  greatest(0, extract(epoch from
+    coalesce((s.doc->'games'->-1->>'playedAt')::timestamptz, s.finalized_at) - s.created_at
+  )::int),
+  coalesce((
+    select jsonb_agg(jsonb_build_object('userId', pl->'odlierId', 'name', pl->'name'))
+    from jsonb_array_elements(s.doc->'players') pl
+  ), '[]'::jsonb)
+from public.sessions s
+join public.seasons se on se.season_number = s.season_number
+where s.finalized_at is not null
+on conflict (session_id) do nothing;
@@ -0,0 +1,37 @@
+-- Damage, kills and placement of every game a player took part in, in the
+-- order played: [{ "damage": int, "kills": int, "placement": int }].
+-- Written by /api/end-session; personal records and streaks are derived from
+-- it. Safe to run more than once.
+
+alter table public.season_player_stats
+  add column if not exists game_log jsonb not null default '[]'::jsonb;
+
+-- Backfill from session docs that kept per-game history. Older sessions only
+-- have totals, so they add nothing to records.
+update public.season_player_stats st
+  set game_log = coalesce(
+    (
+      select jsonb_agg(
+        jsonb_build_object(
+          'damage', (e->'entry'->>'damage')::int,
+          'kills', (e->'entry'->>'kills')::int,
+          'placement', (g->>'placement')::int
+        )
+        order by ord
+      )
+      from public.sessions s
+      cross join lateral jsonb_array_elements(s.doc->'players') pl
+      cross join lateral jsonb_array_elements(coalesce(s.doc->'games', '[]'::jsonb))
+        with ordinality as f(g, ord)
+      cross join lateral jsonb_array_elements(g->'entries') e
+      where s.id = st.session_id
+        and pl->>'odlierId' = st.user_id::text
+        and e->>'odlId' = pl->>'odlId'
+    ),
+    '[]'::jsonb
+  )
+  where st.game_log = '[]'::jsonb
+    and st.session_id is not null;
+
+create index if not exists season_player_stats_user_created_idx
+  on public.season_player_stats (user_id, created_at);
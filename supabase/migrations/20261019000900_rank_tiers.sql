@@ -0,0 +1,11 @@
+-- Ranked overlay for RP progression.
+-- seasons.rank_tiers: [{ "rank": "Gold", "division": 2, "minRp": 6500 }, ...]
+--   (null uses the app's default Rookie → Predator table)
+-- season_players.starting_rp: the player's ranked RP when the season started;
+--   their current RP is this plus the RP logged in sessions.
+
+alter table public.seasons
+  add column if not exists rank_tiers jsonb;
+
+alter table public.season_players
+  add column if not exists starting_rp integer not null default 0;
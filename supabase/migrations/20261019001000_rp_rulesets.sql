@@ -0,0 +1,28 @@
+-- Versioned ranked scoring rules per season, used by the tracker to pre-fill
+-- each player's RP change. A new version is added (never edited in place) when
+-- ranked scoring changes; it applies to games played from effective_from on.
+-- rules: { "entryCost": { "Gold": 30, ... }, "placementPoints": [125, 95, ...],
+--          "killPoints": 10, "killCap": 6 }
+
+create table if not exists public.rp_rulesets (
+  id uuid primary key default gen_random_uuid(),
+  season_id uuid not null references public.seasons (id) on delete cascade,
+  version integer not null,
+  rules jsonb not null,
+  effective_from timestamptz not null default now(),
+  created_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (season_id, version)
+);
+
+alter table public.rp_rulesets enable row level security;
+
+drop policy if exists "Signed-in users can read RP rulesets" on public.rp_rulesets;
+create policy "Signed-in users can read RP rulesets"
+  on public.rp_rulesets for select
+  to authenticated using (true);
+
+drop policy if exists "Signed-in users can add RP rulesets" on public.rp_rulesets;
+create policy "Signed-in users can add RP rulesets"
+  on public.rp_rulesets for insert
+  to authenticated with check (created_by = auth.uid());
@@ -0,0 +1,33 @@
+-- Editable wording for Discord posts, one row per message kind (currently only
+-- "session_summary"). Rendered by lib/discord.ts; posts fall back to the
+-- built-in default when no row exists. Safe to run more than once.
+-- template: { "title": text, "description": text, "player": text, "footer": text }
+
+create table if not exists public.discord_templates (
+  key text primary key,
+  template jsonb not null,
+  updated_by uuid references public.profiles (id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.discord_templates enable row level security;
+
+drop policy if exists "Signed-in users can read Discord templates" on public.discord_templates;
+create policy "Signed-in users can read Discord templates"
+  on public.discord_templates for select
+  to authenticated using (true);
+
+drop policy if exists "Signed-in users can add Discord templates" on public.discord_templates;
+create policy "Signed-in users can add Discord templates"
+  on public.discord_templates for insert
+  to authenticated with check (updated_by = auth.uid());
+
+drop policy if exists "Signed-in users can edit Discord templates" on public.discord_templates;
+create policy "Signed-in users can edit Discord templates"
+  on public.discord_templates for update
+  to authenticated using (true) with check (updated_by = auth.uid());
+
+drop policy if exists "Signed-in users can delete Discord templates" on public.discord_templates;
+create policy "Signed-in users can delete Discord templates"
+  on public.discord_templates for delete
+  to authenticated using (true);
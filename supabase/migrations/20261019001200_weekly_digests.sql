@@ -0,0 +1,14 @@
+-- One row per week the Discord digest was posted for. /api/weekly-digest
+-- inserts the row before posting (removing it again if the post fails), so a
+-- scheduler calling twice for the same week only posts once. Safe to run more
+-- than once.
+
+create table if not exists public.weekly_digests (
+  week_start date primary key,
+  week_end date not null,
+  players integer not null default 0,
+  posted_at timestamptz not null default now()
+);
+
+-- Only the service role reads or writes digests
+alter table public.weekly_digests enable row level security;
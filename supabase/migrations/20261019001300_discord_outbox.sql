@@ -0,0 +1,61 @@
+-- Turn discord_posts into an outbox. Every Discord post is written here as
+-- pending before it is sent; lib/discordOutbox.ts sends it, retrying after
+-- Discord's retry_after on a 429 and backing off on other failures, and
+-- /api/discord-outbox retries whatever is still pending. Rows from before this
+-- migration were successful posts, so they are marked sent. Safe to run more
+-- than once.
+
+create table if not exists public.discord_posts (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now()
+);
+
+alter table public.discord_posts
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists session_id uuid references public.sessions (id) on delete set null,
+  add column if not exists kind text not null default 'session_summary',
+  add column if not exists payload jsonb,
+  add column if not exists status text not null default 'sent',
+  add column if not exists attempts integer not null default 0,
+  add column if not exists next_attempt_at timestamptz,
+  add column if not exists last_error text,
+  add column if not exists sent_at timestamptz,
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.discord_posts alter column status set default 'pending';
+
+-- Rows written by the old live-session flow required these; outbox posts have neither
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'discord_posts' and column_name = 'live_session_id'
+  ) then
+    alter table public.discord_posts alter column live_session_id drop not null;
+  end if;
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'discord_posts' and column_name = 'posted_by'
+  ) then
+    alter table public.discord_posts alter column posted_by drop not null;
+  end if;
+end $$;
+
+alter table public.discord_posts drop constraint if exists discord_posts_status_check;
+alter table public.discord_posts
+  add constraint discord_posts_status_check check (status in ('pending', 'sent', 'failed'));
+
+create index if not exists discord_posts_pending_idx
+  on public.discord_posts (next_attempt_at)
+  where status = 'pending';
+
+create index if not exists discord_posts_session_idx
+  on public.discord_posts (session_id, created_at);
+
+-- Signed-in users can see delivery status; only the service role writes
+alter table public.discord_posts enable row level security;
+
+drop policy if exists "Signed-in users can read Discord posts" on public.discord_posts;
+create policy "Signed-in users can read Discord posts"
+  on public.discord_posts for select
+  to authenticated using (true);
@@ -0,0 +1,52 @@
+-- Discord webhooks to post to, each receiving a chosen set of events
+-- ("session_end", "weekly_digest", "records"). Outbox posts point at the
+-- destination they are sent to; posts with no destination go to the
+-- DISCORD_WEBHOOK_URL env var, which is also used while no destinations are
+-- set up. Webhook URLs are secrets: only the service role (the API routes)
+-- reads or writes this table in full; signed-in users may read everything
+-- but the URL, so the tracker can offer destinations to post to. Safe to run
+-- more than once.
+
+create table if not exists public.discord_destinations (
+  id uuid primary key default gen_random_uuid(),
+  label text not null,
+  webhook_url text not null,
+  events text[] not null default '{}',
+  updated_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.discord_destinations drop constraint if exists discord_destinations_events_check;
+alter table public.discord_destinations
+  add constraint discord_destinations_events_check
+  check (events <@ array['session_end', 'weekly_digest', 'records']::text[]);
+
+alter table public.discord_destinations drop constraint if exists discord_destinations_webhook_url_check;
+alter table public.discord_destinations
+  add constraint discord_destinations_webhook_url_check check (webhook_url ~ '^https?://');
+
+-- Posts keep their history when a destination is removed; /api/discord-destinations
+-- fails any still pending for it first so they aren't sent to the fallback webhook
+alter table public.discord_posts
+  add column if not exists destination_id uuid;
+
+alter table public.discord_posts drop constraint if exists discord_posts_destination_id_fkey;
+alter table public.discord_posts
+  add constraint discord_posts_destination_id_fkey
+  foreign key (destination_id) references public.discord_destinations (id) on delete set null;
+
+alter table public.discord_destinations enable row level security;
+
+drop policy if exists "Signed-in users can add Discord destinations" on public.discord_destinations;
+drop policy if exists "Signed-in users can edit Discord destinations" on public.discord_destinations;
+drop policy if exists "Signed-in users can delete Discord destinations" on public.discord_destinations;
+
+drop policy if exists "Signed-in users can read Discord destinations" on public.discord_destinations;
+create policy "Signed-in users can read Discord destinations"
+  on public.discord_destinations for select
+  to authenticated using (true);
+
+revoke all on public.discord_destinations from anon, authenticated;
+grant select (id, label, events, created_at, updated_at)
+  on public.discord_destinations to authenticated;